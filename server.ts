@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import dotenv from 'dotenv';
+import express from 'express';
+import path from 'path';
+import { getProvider } from './server/providers/index.ts';
+import { draftsRouter } from './server/routes/drafts.ts';
+import { presetsRouter } from './server/routes/presets.ts';
+import { refineRouter } from './server/routes/refine.ts';
+import { settingsRouter } from './server/routes/settings.ts';
+import { tonesRouter } from './server/routes/tones.ts';
+import { usageRouter } from './server/routes/usage.ts';
+import { variantsRouter } from './server/routes/variants.ts';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT) || 3000;
+
+/** TRUST_PROXY as Express's "trust proxy" value: true/false, a hop count, or addresses and subnets. */
+function trustProxySetting(): boolean | number | string {
+  const value = process.env.TRUST_PROXY?.trim() ?? '';
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+async function startServer() {
+  // A misconfigured LLM_PROVIDER should stop the server here, not fail the first refine request.
+  try {
+    getProvider();
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+
+  const app = express();
+  // Behind a proxy, req.ip (and so the rate limit) must come from X-Forwarded-For, not the proxy itself.
+  app.set('trust proxy', trustProxySetting());
+
+  app.use(express.json({ limit: '1mb' }));
+  app.use('/api', refineRouter);
+  app.use('/api', draftsRouter);
+  app.use('/api', tonesRouter);
+  app.use('/api', variantsRouter);
+  app.use('/api', settingsRouter);
+  app.use('/api', presetsRouter);
+  app.use('/api', usageRouter);
+
+  if (process.env.NODE_ENV !== 'production') {
+    const { createServer: createViteServer } = await import('vite');
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`SolDraft running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
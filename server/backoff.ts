@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isTransientError, type CategorizedError, type ErrorCategory } from '../src/errors.ts';
+import { classifyError } from './errors.ts';
+
+export const MAX_BACKOFF_RETRIES = 3;
+const BASE_DELAY_MS = 1_000;
+// A provider asking for a longer pause than this is not worth holding the request open for.
+const MAX_DELAY_MS = 30_000;
+
+/** Resolves after `ms`, or rejects with the abort reason as soon as `signal` fires. */
+export function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Exponential delay with up to 25% jitter, or the provider's own retry hint when it gave one. */
+export function backoffDelay(attempt: number, error: CategorizedError): number {
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs;
+  const delay = BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.round(delay + Math.random() * delay * 0.25);
+}
+
+export interface BackoffOptions {
+  signal: AbortSignal;
+  onBackoff?: (attempt: number, delayMs: number, category: ErrorCategory) => void;
+}
+
+/**
+ * Runs `task`, retrying transient failures up to `MAX_BACKOFF_RETRIES` times with exponential
+ * backoff. Anything else, and the last failure, is rethrown as a `CategorizedError`.
+ */
+export async function withBackoff<T>(task: () => Promise<T>, { signal, onBackoff }: BackoffOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (signal.aborted) throw err;
+      const error = classifyError(err);
+      const delayMs = backoffDelay(attempt, error);
+      if (!isTransientError(error.category) || attempt > MAX_BACKOFF_RETRIES || delayMs > MAX_DELAY_MS) throw error;
+
+      console.warn(`Retrying after ${error.category} error in ${delayMs}ms: ${error.message}`);
+      onBackoff?.(attempt, delayMs, error.category);
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+// Each entry runs once, in order; PRAGMA user_version records how many have been applied.
+const MIGRATIONS: string[] = [
+  `CREATE TABLE drafts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    draft TEXT NOT NULL,
+    tone TEXT NOT NULL,
+    action TEXT NOT NULL,
+    avoid_words TEXT NOT NULL,
+    model TEXT NOT NULL,
+    output TEXT NOT NULL
+  );
+  CREATE INDEX drafts_created_at ON drafts (created_at);`,
+  `CREATE TABLE tone_profiles (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    label TEXT NOT NULL,
+    icon TEXT NOT NULL,
+    color TEXT NOT NULL,
+    description TEXT NOT NULL,
+    instructions TEXT NOT NULL
+  );`,
+  `CREATE TABLE variant_candidates (
+    group_id TEXT NOT NULL,
+    draft_id INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    tone TEXT NOT NULL,
+    action TEXT NOT NULL,
+    picked INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (group_id, draft_id)
+  );`,
+  `ALTER TABLE drafts ADD COLUMN structured TEXT;`,
+  `ALTER TABLE drafts ADD COLUMN settings TEXT;
+  CREATE TABLE user_settings (
+    user_id TEXT PRIMARY KEY,
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    settings TEXT NOT NULL
+  );`,
+  `ALTER TABLE drafts ADD COLUMN prompt_version TEXT;`,
+  `CREATE TABLE guardrail_presets (
+    id TEXT PRIMARY KEY,
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    tone TEXT NOT NULL,
+    avoid_words TEXT NOT NULL,
+    max_length_ratio REAL NOT NULL
+  );`,
+  `ALTER TABLE drafts ADD COLUMN parent_id INTEGER;
+  ALTER TABLE drafts ADD COLUMN instruction TEXT;`,
+  `ALTER TABLE drafts ADD COLUMN context TEXT;`,
+  `CREATE TABLE usage_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    user_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    action TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    latency_ms INTEGER NOT NULL,
+    attempts INTEGER NOT NULL,
+    outcome TEXT NOT NULL,
+    draft_id INTEGER
+  );
+  CREATE INDEX usage_events_created_at ON usage_events (created_at);
+  CREATE TABLE model_prices (
+    model TEXT PRIMARY KEY,
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    input_per_million REAL NOT NULL,
+    output_per_million REAL NOT NULL
+  );`,
+];
+
+let db: Database.Database | null = null;
+
+function migrate(database: Database.Database) {
+  const version = database.pragma('user_version', { simple: true }) as number;
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    database.transaction(() => {
+      database.exec(MIGRATIONS[i]);
+      database.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+}
+
+export function getDb(): Database.Database {
+  if (!db) {
+    const file = process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'soldraft.db');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    migrate(db);
+  }
+  return db;
+}
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CategorizedError, type ErrorCategory } from '../src/errors.ts';
+
+const NETWORK_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'EPIPE', 'UND_ERR_SOCKET']);
+// Per-minute limits come back with a short retry delay; anything longer is treated as a spent quota.
+const MAX_RATE_LIMIT_DELAY_MS = 60_000;
+
+/** Reads a provider's retry hint: Gemini puts `"retryDelay": "30s"` in the error body, others send seconds. */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const delay = value.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/)?.[1] ?? value.match(/^\s*(\d+(?:\.\d+)?)\s*$/)?.[1];
+  return delay === undefined ? undefined : Math.ceil(Number(delay) * 1000);
+}
+
+/** Maps an HTTP status from a provider, plus its error text, to a category. */
+export function categoryForStatus(status: number, message: string, retryAfterMs?: number): ErrorCategory {
+  if (status === 429) {
+    const longWait = retryAfterMs === undefined || retryAfterMs > MAX_RATE_LIMIT_DELAY_MS;
+    return longWait && /quota|billing|RESOURCE_EXHAUSTED/i.test(message) ? 'quota_exceeded' : 'rate_limited';
+  }
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 400 && /API key/i.test(message)) return 'auth';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'unavailable';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+}
+
+function networkCode(err: Error): string | undefined {
+  const code = (err as { code?: unknown }).code ?? (err.cause as { code?: unknown } | undefined)?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+/** Sorts anything thrown while generating into a category the client can explain and the server can retry. */
+export function classifyError(err: unknown): CategorizedError {
+  if (err instanceof CategorizedError) return err;
+  if (!(err instanceof Error)) return new CategorizedError('unknown');
+
+  const status = (err as { status?: unknown }).status;
+  if (typeof status === 'number') {
+    const retryAfterMs = parseRetryAfter(err.message);
+    return new CategorizedError(categoryForStatus(status, err.message, retryAfterMs), undefined, retryAfterMs);
+  }
+  if (err.name === 'TimeoutError' || /DEADLINE_EXCEEDED|timed out/i.test(err.message)) return new CategorizedError('timeout');
+  const code = networkCode(err);
+  if ((code && NETWORK_CODES.has(code)) || (err instanceof TypeError && /fetch failed/i.test(err.message))) {
+    return new CategorizedError('network');
+  }
+  return new CategorizedError('unknown');
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { defaultSettings } from '../src/models.ts';
+import type { StructuredEmail } from '../src/structured.ts';
+import type { DraftRecord, RefineRequest } from '../src/types.ts';
+import { getDb } from './db.ts';
+
+interface DraftRow {
+  id: number;
+  created_at: string;
+  draft: string;
+  tone: string;
+  action: string;
+  avoid_words: string;
+  model: string;
+  output: string;
+  structured: string | null;
+  settings: string | null;
+  prompt_version: string | null;
+  parent_id: number | null;
+  instruction: string | null;
+  context: string | null;
+}
+
+export interface DraftResult {
+  output: string;
+  structured: StructuredEmail | null;
+  promptVersion: string;
+}
+
+export interface DraftParent {
+  parentId: number;
+  instruction: string;
+}
+
+const HISTORY_LIMIT = 100;
+
+function toRecord(row: DraftRow): DraftRecord {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    draft: row.draft,
+    tone: row.tone,
+    action: row.action as DraftRecord['action'],
+    avoidWords: JSON.parse(row.avoid_words),
+    model: row.model,
+    output: row.output,
+    structured: row.structured ? JSON.parse(row.structured) : null,
+    // Drafts saved before settings were recorded only know their model.
+    settings: row.settings ? JSON.parse(row.settings) : defaultSettings(row.model),
+    promptVersion: row.prompt_version,
+    parentId: row.parent_id,
+    instruction: row.instruction,
+    context: row.context ? JSON.parse(row.context) : [],
+  };
+}
+
+export function saveDraft(request: RefineRequest, result: DraftResult, parent?: DraftParent): DraftRecord {
+  const row = getDb()
+    .prepare(
+      `INSERT INTO drafts (draft, tone, action, avoid_words, model, output, structured, settings, prompt_version, parent_id, instruction, context)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+    )
+    .get(
+      request.draft,
+      request.tone,
+      request.action,
+      JSON.stringify(request.avoidWords),
+      request.settings.model,
+      result.output,
+      result.structured ? JSON.stringify(result.structured) : null,
+      JSON.stringify(request.settings),
+      result.promptVersion,
+      parent?.parentId ?? null,
+      parent?.instruction ?? null,
+      request.context.length > 0 ? JSON.stringify(request.context) : null,
+    ) as DraftRow;
+  return toRecord(row);
+}
+
+export function listDrafts(query = ''): DraftRecord[] {
+  const db = getDb();
+  const trimmed = query.trim();
+  if (!trimmed) {
+    const rows = db
+      .prepare('SELECT * FROM drafts ORDER BY created_at DESC, id DESC LIMIT ?')
+      .all(HISTORY_LIMIT) as DraftRow[];
+    return rows.map(toRecord);
+  }
+
+  const pattern = `%${trimmed.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+  const rows = db
+    .prepare(
+      `SELECT * FROM drafts
+       WHERE draft LIKE @pattern ESCAPE '\\' OR output LIKE @pattern ESCAPE '\\'
+       ORDER BY created_at DESC, id DESC LIMIT @limit`,
+    )
+    .all({ pattern, limit: HISTORY_LIMIT }) as DraftRow[];
+  return rows.map(toRecord);
+}
+
+export function getDraft(id: number): DraftRecord | null {
+  const row = getDb().prepare('SELECT * FROM drafts WHERE id = ?').get(id) as DraftRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+/** The draft and its ancestors, oldest first. Deleted ancestors simply drop out of the thread. */
+export function getThread(id: number): DraftRecord[] {
+  const rows = getDb()
+    .prepare(
+      `WITH RECURSIVE thread (id, parent_id, depth) AS (
+         SELECT id, parent_id, 0 FROM drafts WHERE id = ?
+         UNION ALL
+         SELECT drafts.id, drafts.parent_id, thread.depth + 1 FROM drafts JOIN thread ON drafts.id = thread.parent_id
+       )
+       SELECT drafts.* FROM drafts JOIN thread ON drafts.id = thread.id ORDER BY thread.depth DESC`,
+    )
+    .all(id) as DraftRow[];
+  return rows.map(toRecord);
+}
+
+export function deleteDraft(id: number): boolean {
+  return getDb().prepare('DELETE FROM drafts WHERE id = ?').run(id).changes > 0;
+}
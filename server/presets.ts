@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { GuardrailPreset, GuardrailPresetInput } from '../src/presets.ts';
+import { getDb } from './db.ts';
+
+interface PresetRow {
+  id: string;
+  updated_at: string;
+  name: string;
+  tone: string;
+  avoid_words: string;
+  max_length_ratio: number;
+}
+
+function toPreset(row: PresetRow): GuardrailPreset {
+  return {
+    id: row.id,
+    updatedAt: row.updated_at,
+    name: row.name,
+    tone: row.tone,
+    avoidWords: JSON.parse(row.avoid_words),
+    maxLengthRatio: row.max_length_ratio,
+  };
+}
+
+function toParams(input: GuardrailPresetInput) {
+  return {
+    name: input.name,
+    tone: input.tone,
+    avoid_words: JSON.stringify(input.avoidWords),
+    max_length_ratio: input.maxLengthRatio,
+  };
+}
+
+export function listPresets(): GuardrailPreset[] {
+  const rows = getDb().prepare('SELECT * FROM guardrail_presets ORDER BY name').all() as PresetRow[];
+  return rows.map(toPreset);
+}
+
+export function presetNameTaken(name: string, exceptId?: string): boolean {
+  return getDb()
+    .prepare('SELECT 1 FROM guardrail_presets WHERE name = ? AND id IS NOT ?')
+    .get(name, exceptId ?? null) !== undefined;
+}
+
+export function createPreset(input: GuardrailPresetInput): GuardrailPreset {
+  const row = getDb()
+    .prepare(
+      `INSERT INTO guardrail_presets (id, name, tone, avoid_words, max_length_ratio)
+       VALUES (@id, @name, @tone, @avoid_words, @max_length_ratio)
+       RETURNING *`,
+    )
+    .get({ id: randomUUID(), ...toParams(input) }) as PresetRow;
+  return toPreset(row);
+}
+
+export function updatePreset(id: string, input: GuardrailPresetInput): GuardrailPreset | null {
+  const row = getDb()
+    .prepare(
+      `UPDATE guardrail_presets
+       SET name = @name, tone = @tone, avoid_words = @avoid_words, max_length_ratio = @max_length_ratio,
+           updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+       WHERE id = @id
+       RETURNING *`,
+    )
+    .get({ id, ...toParams(input) }) as PresetRow | undefined;
+  return row ? toPreset(row) : null;
+}
+
+export function deletePreset(id: string): boolean {
+  return getDb().prepare('DELETE FROM guardrail_presets WHERE id = ?').run(id).changes > 0;
+}
+
+/** Imports all presets in one transaction; a preset whose name already exists replaces that preset. */
+export function importPresets(inputs: GuardrailPresetInput[]): GuardrailPreset[] {
+  const db = getDb();
+  const upsert = db.prepare(
+    `INSERT INTO guardrail_presets (id, name, tone, avoid_words, max_length_ratio)
+     VALUES (@id, @name, @tone, @avoid_words, @max_length_ratio)
+     ON CONFLICT (name) DO UPDATE SET
+       tone = excluded.tone,
+       avoid_words = excluded.avoid_words,
+       max_length_ratio = excluded.max_length_ratio,
+       updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+     RETURNING *`,
+  );
+  return db.transaction(() =>
+    inputs.map((input) => toPreset(upsert.get({ id: randomUUID(), ...toParams(input) }) as PresetRow)),
+  )();
+}
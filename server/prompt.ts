@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GuardrailReport } from '../src/guardrails.ts';
+import type { RefineAction, RefineRequest } from '../src/types.ts';
+import { findQuestions, selectRelevantMessages, type ThreadMessage } from '../src/thread.ts';
+import type { ToneProfile } from '../src/tones.ts';
+
+// Prompt templates are named and versioned so each saved output records exactly which wording produced it.
+// Any change to a template's text, however small, must bump its version. Version 1 of the refine and
+// guardrail-retry templates predates recording; those drafts have no prompt version.
+
+export interface PromptTemplate<Input> {
+  name: string;
+  version: number;
+  render: (input: Input) => string;
+}
+
+export interface RefinePromptInput {
+  request: Pick<RefineRequest, 'draft' | 'action' | 'avoidWords' | 'format' | 'context'>;
+  tone: ToneProfile;
+}
+
+export interface FollowUpPromptInput {
+  instruction: string;
+}
+
+export interface GuardrailRetryPromptInput {
+  basePrompt: string;
+  previousOutput: string;
+  report: GuardrailReport;
+}
+
+const ACTION_PROMPTS: Record<RefineAction, string> = {
+  rephrase: "Rephrase the following draft to improve flow and wording while keeping the core message identical.",
+  refine: "Refine the following draft to improve clarity, tone, and professional impact.",
+  improve: "Substantially improve the following draft by adding structure, better vocabulary, and strategic depth."
+};
+
+export const ACTIONS = Object.keys(ACTION_PROMPTS) as RefineAction[];
+
+/**
+ * Escapes every quote in a run of three or more inside user text, so no `"""` survives to close the block
+ * quoting it and smuggle in instructions. Escaping each `"""` alone would leave one behind in `"""""`.
+ */
+export function escapeQuotedBlock(text: string): string {
+  return text.replace(/"{3,}/g, (run) => run.replace(/"/g, '\\"'));
+}
+
+function threadPrompt(context: ThreadMessage[]): string {
+  if (context.length === 0) return '';
+  const messages = selectRelevantMessages(context);
+  const questions = findQuestions(messages);
+
+  const quoted = messages
+    .map((m) => `From: ${m.from || 'Unknown'} · Date: ${m.date || 'Unknown'}\n    ${escapeQuotedBlock(m.body)}`)
+    .join('\n\n    ');
+  const questionList = questions.length > 0
+    ? `Open questions asked in the thread:
+    ${questions.map((q) => `- ${escapeQuotedBlock(q.text)}${q.from ? ` (${q.from})` : ''}`).join('\n    ')}
+    The reply must answer every one of these questions that the draft gives enough information to answer. Never invent facts to answer the rest.`
+    : '';
+
+  return `
+    The draft is a reply to this email thread (oldest message first, possibly abridged):
+    """
+    ${quoted}
+    """
+    ${questionList}
+  `;
+}
+
+export const REFINE_PROMPT: PromptTemplate<RefinePromptInput> = {
+  name: 'refine',
+  version: 4,
+  render: ({ request: { draft, action, avoidWords, format, context }, tone }) => {
+    const avoidPrompt = avoidWords.length > 0
+      ? `CRITICAL: Do NOT use any of the following words or phrases in your response: ${avoidWords.join(', ')}.`
+      : '';
+
+    const outputPrompt = format === 'structured'
+      ? `Respond with JSON only: a subject line, a one-sentence TL;DR, the ${action}d email body, and every action item in the draft with its owner and due date. Leave owner or due empty when the draft does not state them; never invent them. Focus on PM-specific needs: clarity of requirements, alignment on goals, and decisive action.`
+      : `Please provide only the ${action}d email text. Focus on PM-specific needs: clarity of requirements, alignment on goals, and decisive action. Do not include subject lines unless specifically asked. Do not include meta-commentary.`;
+
+    return `
+    You are SolDraft, a senior Product Management communications coach.
+    Your task is to ${action} the following email draft for a Product Manager.
+
+    Context: The user is a Product Manager communicating with stakeholders, engineering teams, or leadership.
+    Tone Requirement: ${tone.instructions}
+    Action Requirement: ${ACTION_PROMPTS[action]}
+    ${avoidPrompt}
+    ${threadPrompt(context)}
+    CRITICAL: Keep the response CONCISE and to the point. Product Managers value brevity. Do not exceed the length of the original draft unless absolutely necessary for clarity.
+
+    Original Draft:
+    """
+    ${escapeQuotedBlock(draft)}
+    """
+
+    ${outputPrompt}
+  `;
+  },
+};
+
+/** Re-asks for the same email, quoting the rejected attempt and the rules it broke. */
+export const GUARDRAIL_RETRY_PROMPT: PromptTemplate<GuardrailRetryPromptInput> = {
+  name: 'guardrail-retry',
+  version: 3,
+  render: ({ basePrompt, previousOutput, report }) => {
+    const violations: string[] = [];
+    const usedWords = [...new Set(report.avoidWordMatches.map((match) => match.word))];
+    if (usedWords.length > 0) {
+      violations.push(`It used banned words or phrases (including variants): ${usedWords.join(', ')}.`);
+    }
+    if (report.tooLong) {
+      violations.push(`It was ${report.outputWords} words long, but the original draft is only ${report.draftWords} words. Make it shorter.`);
+    }
+
+    return `${basePrompt}
+    Your previous attempt was rejected:
+    """
+    ${escapeQuotedBlock(previousOutput)}
+    """
+
+    It broke these rules:
+    ${violations.map((v) => `- ${v}`).join('\n    ')}
+
+    Rewrite the email so that it follows every rule above, in the same output format as requested.
+  `;
+  },
+};
+
+export const FOLLOW_UP_PROMPT: PromptTemplate<FollowUpPromptInput> = {
+  name: 'follow-up',
+  version: 2,
+  render: ({ instruction }) => `
+    Revise your latest version of the email according to this instruction from the user:
+    """
+    ${escapeQuotedBlock(instruction)}
+    """
+
+    Keep following every requirement from the original request (tone, banned words, length and output format)
+    unless the instruction explicitly overrides it. Change nothing the instruction does not ask for.
+    Respond with the revised email only, in the same output format as before.
+  `,
+};
+
+/** Identifier stored with each output, e.g. "refine@2". */
+export function templateVersion(template: PromptTemplate<never>): string {
+  return `${template.name}@${template.version}`;
+}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  FinishReason,
+  GoogleGenAI,
+  type GenerateContentConfig,
+  type GenerateContentResponseUsageMetadata,
+} from '@google/genai';
+import { CategorizedError } from '../../src/errors.ts';
+import type { GenerationSettings } from '../../src/models.ts';
+import type { LlmProvider } from './types.ts';
+
+const GEMINI_MODELS = [
+  'gemini-3-flash-preview',
+  'gemini-3-pro-preview',
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite',
+  'gemini-2.5-pro',
+];
+
+const SAFETY_FINISH_REASONS: ReadonlySet<FinishReason> = new Set([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.RECITATION,
+]);
+
+/** Sampling parameters for a request; unset (null) settings are left to the model's defaults. */
+function toGenerationConfig({ temperature, maxOutputTokens, seed }: GenerationSettings): GenerateContentConfig {
+  return {
+    ...(temperature !== null && { temperature }),
+    ...(maxOutputTokens !== null && { maxOutputTokens }),
+    ...(seed !== null && { seed }),
+  };
+}
+
+// The key only ever lives in the server process; it is never sent to the browser.
+export function createGeminiProvider(apiKey: string | undefined): LlmProvider {
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!apiKey) throw new CategorizedError('auth', 'GEMINI_API_KEY is not set on the server.');
+    client ??= new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+    models: GEMINI_MODELS,
+    defaultModel: GEMINI_MODELS[0],
+    async *streamText({ messages, settings, responseSchema, signal, onUsage }) {
+      const stream = await getClient().models.generateContentStream({
+        model: settings.model,
+        contents: messages.map(({ role, text }) => ({ role, parts: [{ text }] })),
+        config: {
+          ...toGenerationConfig(settings),
+          abortSignal: signal,
+          ...(responseSchema && { responseMimeType: 'application/json', responseJsonSchema: responseSchema }),
+        },
+      });
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      try {
+        for await (const chunk of stream) {
+          // Every chunk carries the running totals; the last one has the final counts.
+          usage = chunk.usageMetadata ?? usage;
+          // Blocks arrive as a normal chunk with no text; surface them instead of an empty output.
+          const blockReason = chunk.promptFeedback?.blockReason;
+          const finishReason = chunk.candidates?.[0]?.finishReason;
+          if (blockReason || (finishReason && SAFETY_FINISH_REASONS.has(finishReason))) {
+            throw new CategorizedError('safety_blocked', `Gemini blocked the request: ${blockReason ?? finishReason}.`);
+          }
+          if (chunk.text) yield chunk.text;
+        }
+      } finally {
+        // Stopped and blocked streams are billed too, up to the last totals seen.
+        if (usage) {
+          // Thinking tokens are billed as output.
+          onUsage?.({
+            inputTokens: usage.promptTokenCount ?? 0,
+            outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+          });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createGeminiProvider } from './gemini.ts';
+import { createMockProvider } from './mock.ts';
+import { createOpenAiProvider } from './openai.ts';
+import type { LlmProvider } from './types.ts';
+
+export type { ChatMessage, GenerateRequest, LlmProvider } from './types.ts';
+
+let provider: LlmProvider | null = null;
+
+function createProvider(): LlmProvider {
+  const name = process.env.LLM_PROVIDER || 'gemini';
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider(process.env.GEMINI_API_KEY);
+    case 'openai':
+      return createOpenAiProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        models: (process.env.OPENAI_MODELS || 'llama3.1').split(',').map((m) => m.trim()).filter(Boolean),
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Use gemini, openai or mock.`);
+  }
+}
+
+/** The provider selected by LLM_PROVIDER, created on first use. */
+export function getProvider(): LlmProvider {
+  provider ??= createProvider();
+  return provider;
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'crypto';
+import { CategorizedError, isErrorCategory } from '../../src/errors.ts';
+import { sleep } from '../backoff.ts';
+import type { LlmProvider } from './types.ts';
+
+const MOCK_MODEL = 'mock-echo';
+// Put e.g. "[mock:unavailable]" in a draft to make every attempt fail with that category.
+const MOCK_FAILURE_PATTERN = /\[mock:(\w+)\]/;
+
+/**
+ * Canned, deterministic responses for tests and offline demos: the same conversation always
+ * yields the same text, streamed word by word. No network, no key.
+ */
+export function createMockProvider({ delayMs = 20 }: { delayMs?: number } = {}): LlmProvider {
+  return {
+    name: 'mock',
+    models: [MOCK_MODEL],
+    defaultModel: MOCK_MODEL,
+    async *streamText({ messages, responseSchema, signal, onUsage }) {
+      // Roughly four characters per token, like most tokenizers on English text. The prompt counts as soon
+      // as it is sent; output only as far as it streamed, so stopped and failed calls are billed like real ones.
+      const tokens = (chars: number) => Math.ceil(chars / 4);
+      onUsage?.({ inputTokens: tokens(messages.reduce((sum, m) => sum + m.text.length, 0)), outputTokens: 0 });
+
+      const failure = messages[0]?.text.match(MOCK_FAILURE_PATTERN)?.[1];
+      if (isErrorCategory(failure)) throw new CategorizedError(failure, `Mock ${failure} failure.`);
+
+      const ref = createHash('sha256').update(JSON.stringify(messages)).digest('hex').slice(0, 8);
+      const body = `Hi team,\n\nQuick update: the plan is on track and the next milestone lands as scheduled. Reply here with any blockers.\n\nThanks! (mock ${ref})`;
+      const text = responseSchema
+        ? JSON.stringify({
+            subject: `Status update (mock ${ref})`,
+            tldr: 'The plan is on track.',
+            body,
+            actionItems: [{ owner: 'Team', task: 'Flag blockers', due: '' }],
+          })
+        : body;
+
+      let streamed = 0;
+      try {
+        for (const piece of text.match(/\S+\s*/g) ?? []) {
+          await sleep(delayMs, signal);
+          streamed += piece.length;
+          yield piece;
+        }
+      } finally {
+        onUsage?.({ inputTokens: 0, outputTokens: tokens(streamed) });
+      }
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CategorizedError } from '../../src/errors.ts';
+import { categoryForStatus, parseRetryAfter } from '../errors.ts';
+import type { LlmProvider } from './types.ts';
+
+export interface OpenAiProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  models: string[];
+}
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API with SSE streaming,
+ * e.g. Ollama (`http://localhost:11434/v1`) or llama.cpp's `llama-server`.
+ */
+export function createOpenAiProvider({ baseUrl, apiKey, models }: OpenAiProviderOptions): LlmProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    models,
+    defaultModel: models[0],
+    async *streamText({ messages, settings, responseSchema, signal, onUsage }) {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          messages: messages.map(({ role, text }) => ({ role: role === 'model' ? 'assistant' : 'user', content: text })),
+          stream: true,
+          stream_options: { include_usage: true },
+          ...(settings.temperature !== null && { temperature: settings.temperature }),
+          ...(settings.maxOutputTokens !== null && { max_tokens: settings.maxOutputTokens }),
+          ...(settings.seed !== null && { seed: settings.seed }),
+          ...(responseSchema && {
+            response_format: { type: 'json_schema', json_schema: { name: 'response', strict: true, schema: responseSchema } },
+          }),
+        }),
+        signal,
+      });
+      if (!res.ok || !res.body) {
+        const detail = await res.text().catch(() => '');
+        const retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+        throw new CategorizedError(
+          categoryForStatus(res.status, detail, retryAfterMs),
+          `OpenAI-compatible server responded ${res.status}: ${detail}`,
+          retryAfterMs,
+        );
+      }
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          if (!line.startsWith('data:')) continue;
+
+          const data = line.slice('data:'.length).trim();
+          if (data === '[DONE]') return;
+          const event = JSON.parse(data);
+          // With include_usage, the last event before [DONE] has no choices and carries the totals.
+          if (event.usage) {
+            onUsage?.({ inputTokens: event.usage.prompt_tokens ?? 0, outputTokens: event.usage.completion_tokens ?? 0 });
+          }
+          const choice = event.choices?.[0];
+          if (choice?.finish_reason === 'content_filter') {
+            throw new CategorizedError('safety_blocked', 'The server filtered the response.');
+          }
+          const text = choice?.delta?.content;
+          if (text) yield text as string;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GenerationSettings } from '../../src/models.ts';
+import type { TokenUsage } from '../../src/usage.ts';
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface GenerateRequest {
+  // The conversation so far, ending with a user turn; a one-shot prompt is a single user message.
+  messages: ChatMessage[];
+  settings: GenerationSettings;
+  // A JSON Schema the response must follow; omitted for free-text output.
+  responseSchema?: Record<string, unknown>;
+  signal: AbortSignal;
+  // Called with token counts as the provider reports them, including when the stream is stopped or fails
+  // part-way; the counts from several calls add up.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/** A backend that turns a finished conversation into streamed text. Prompts are built by the caller. */
+export interface LlmProvider {
+  readonly name: string;
+  readonly models: string[];
+  readonly defaultModel: string;
+  streamText(request: GenerateRequest): AsyncIterable<string>;
+}
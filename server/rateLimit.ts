@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { RequestHandler } from 'express';
+import { ERROR_MESSAGES } from '../src/errors.ts';
+import { createRateLimiter } from '../src/rateLimit.ts';
+import type { ApiErrorBody } from '../src/types.ts';
+
+const DEFAULT_REFINES_PER_MINUTE = 20;
+
+function refinesPerMinute(): number {
+  const limit = Number(process.env.RATE_LIMIT_PER_MINUTE);
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_REFINES_PER_MINUTE;
+}
+
+let limiter: ReturnType<typeof createRateLimiter> | null = null;
+
+/**
+ * Caps generation requests per client address (each variant counts as one), so a single browser cannot
+ * spend the team's provider quota. The user id header is chosen by the client, so it is no key:
+ * a fresh id per request would slip past the limit. Over the limit the request is rejected with
+ * 429 and Retry-After.
+ */
+export const limitGenerations: RequestHandler<never, ApiErrorBody> = (req, res, next) => {
+  limiter ??= createRateLimiter({ limit: refinesPerMinute(), windowMs: 60_000 });
+  const waitMs = limiter.take(req.ip ?? req.socket.remoteAddress ?? 'unknown');
+  if (waitMs === 0) {
+    next();
+    return;
+  }
+
+  const retryAfterSeconds = Math.ceil(waitMs / 1000);
+  res.set('Retry-After', String(retryAfterSeconds));
+  res.status(429).json({ error: ERROR_MESSAGES.rate_limited, category: 'rate_limited', retryAfterSeconds });
+};
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CategorizedError } from '../src/errors.ts';
+import { defaultSettings } from '../src/models.ts';
+import { BUILT_IN_TONES } from '../src/tones.ts';
+import type { RefineRequest } from '../src/types.ts';
+import { createMockProvider } from './providers/mock.ts';
+import { refine, type RefineCallbacks } from './refiner.ts';
+
+const provider = createMockProvider({ delayMs: 0 });
+const tone = BUILT_IN_TONES[0];
+
+function makeRequest(overrides: Partial<RefineRequest> = {}): RefineRequest {
+  return {
+    draft: 'Hi team, quick update on the plan: the next milestone is on track, reply with blockers.',
+    tone: tone.id,
+    action: 'refine',
+    avoidWords: [],
+    maxRetries: 0,
+    maxLengthRatio: 3,
+    format: 'text',
+    settings: defaultSettings(provider.defaultModel),
+    context: [],
+    ...overrides,
+  };
+}
+
+function recorder() {
+  const events = { chunks: [] as string[], retries: [] as number[], inputTokens: 0, outputTokens: 0 };
+  const callbacks: RefineCallbacks = {
+    signal: new AbortController().signal,
+    onChunk: (text) => events.chunks.push(text),
+    onRetry: (attempt) => events.retries.push(attempt),
+    onBackoff: () => assert.fail('the mock provider never fails transiently here'),
+    onUsage: (usage) => {
+      events.inputTokens += usage.inputTokens;
+      events.outputTokens += usage.outputTokens;
+    },
+  };
+  return { events, callbacks };
+}
+
+describe('refine', () => {
+  it('streams the mock output and reports usage', async () => {
+    const { events, callbacks } = recorder();
+    const outcome = await refine(makeRequest(), tone, provider, callbacks);
+
+    assert.equal(events.chunks.join(''), outcome.text);
+    assert.match(outcome.text, /^Hi team,/);
+    assert.equal(outcome.structured, null);
+    assert.equal(outcome.promptVersion, 'refine@4');
+    assert.ok(events.inputTokens > 0 && events.outputTokens > 0);
+  });
+
+  it('is deterministic for the same request', async () => {
+    const first = await refine(makeRequest(), tone, provider, recorder().callbacks);
+    const second = await refine(makeRequest(), tone, provider, recorder().callbacks);
+    assert.equal(first.text, second.text);
+  });
+
+  it('retries on guardrail violations and records the retry template', async () => {
+    const { events, callbacks } = recorder();
+    // The mock always greets the team, so every attempt breaks this rule.
+    const outcome = await refine(makeRequest({ avoidWords: ['team'], maxRetries: 2 }), tone, provider, callbacks);
+
+    assert.deepEqual(events.retries, [1, 2]);
+    assert.equal(outcome.promptVersion, 'refine@4+guardrail-retry@3');
+  });
+
+  it('parses structured output without streaming partial JSON', async () => {
+    const { events, callbacks } = recorder();
+    const outcome = await refine(makeRequest({ format: 'structured' }), tone, provider, callbacks);
+
+    assert.deepEqual(events.chunks, []);
+    assert.ok(outcome.structured);
+    assert.match(outcome.structured.subject, /Status update/);
+    assert.match(outcome.text, /Flag blockers/);
+  });
+
+  it('replays the thread for follow-ups', async () => {
+    const request = makeRequest();
+    const first = await refine(request, tone, provider, recorder().callbacks);
+    const followUp = await refine(request, tone, provider, recorder().callbacks, {
+      thread: [{ instruction: null, output: first.text, structured: null }],
+      instruction: 'Shorter',
+    });
+    assert.equal(followUp.promptVersion, 'refine@4+follow-up@2');
+    assert.notEqual(followUp.text, first.text);
+  });
+
+  it('reports the usage of a stopped request', async () => {
+    const { events, callbacks } = recorder();
+    const controller = new AbortController();
+    let chunks = 0;
+    const stopped = refine(makeRequest(), tone, createMockProvider({ delayMs: 1 }), {
+      ...callbacks,
+      signal: controller.signal,
+      onChunk: () => {
+        if (++chunks === 3) controller.abort();
+      },
+    });
+
+    await assert.rejects(stopped);
+    assert.ok(events.inputTokens > 0);
+    assert.ok(events.outputTokens > 0);
+  });
+
+  it('rejects with the category of a non-transient failure', async () => {
+    await assert.rejects(
+      refine(makeRequest({ draft: 'Hi [mock:safety_blocked]' }), tone, provider, recorder().callbacks),
+      (err) => err instanceof CategorizedError && err.category === 'safety_blocked',
+    );
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CategorizedError, type ErrorCategory } from '../src/errors.ts';
+import { checkGuardrails, type GuardrailReport } from '../src/guardrails.ts';
+import { parseStructuredEmail, renderStructuredEmail, type StructuredEmail } from '../src/structured.ts';
+import type { ToneProfile } from '../src/tones.ts';
+import type { DraftRecord, RefineRequest } from '../src/types.ts';
+import type { TokenUsage } from '../src/usage.ts';
+import { withBackoff } from './backoff.ts';
+import { FOLLOW_UP_PROMPT, GUARDRAIL_RETRY_PROMPT, REFINE_PROMPT, templateVersion, type PromptTemplate } from './prompt.ts';
+import type { ChatMessage, LlmProvider } from './providers/index.ts';
+import { STRUCTURED_EMAIL_SCHEMA } from './structured.ts';
+
+export interface RefineCallbacks {
+  signal: AbortSignal;
+  onChunk: (text: string) => void;
+  // Fired when an attempt breaks the guardrails and is about to be regenerated.
+  onRetry: (attempt: number, report: GuardrailReport) => void;
+  // Fired when an attempt failed transiently and will be restarted after `delayMs`.
+  onBackoff: (attempt: number, delayMs: number, category: ErrorCategory) => void;
+  // Fired with token counts as providers report them, for failed and retried calls too; the counts add up.
+  onUsage: (usage: TokenUsage) => void;
+}
+
+export interface RefineOutcome {
+  text: string;
+  structured: StructuredEmail | null;
+  promptVersion: string;
+}
+
+export interface FollowUp {
+  // Earlier versions, oldest first. Every version after the first answered its `instruction`.
+  thread: Pick<DraftRecord, 'instruction' | 'output' | 'structured'>[];
+  instruction: string;
+}
+
+/** Replays the original prompt and each earlier version as a chat, ending with the new instruction. */
+function buildConversation(request: RefineRequest, tone: ToneProfile, followUp?: FollowUp): ChatMessage[] {
+  const messages: ChatMessage[] = [{ role: 'user', text: REFINE_PROMPT.render({ request, tone }) }];
+  if (!followUp) return messages;
+
+  followUp.thread.forEach((version, i) => {
+    if (i > 0 && version.instruction) {
+      messages.push({ role: 'user', text: FOLLOW_UP_PROMPT.render({ instruction: version.instruction }) });
+    }
+    // Structured versions were produced as JSON; replaying them as JSON keeps the model in that format.
+    messages.push({ role: 'model', text: version.structured ? JSON.stringify(version.structured) : version.output });
+  });
+  messages.push({ role: 'user', text: FOLLOW_UP_PROMPT.render({ instruction: followUp.instruction }) });
+  return messages;
+}
+
+/**
+ * Runs the original prompt, or a follow-up turn on an earlier output, on `provider` and regenerates
+ * up to `maxRetries` times on guardrail violations. Transient provider failures are retried with
+ * backoff; anything else rejects with a `CategorizedError`.
+ */
+export async function refine(
+  request: RefineRequest,
+  tone: ToneProfile,
+  provider: LlmProvider,
+  { signal, onChunk, onRetry, onBackoff, onUsage }: RefineCallbacks,
+  followUp?: FollowUp,
+): Promise<RefineOutcome> {
+  const isStructured = request.format === 'structured';
+  const conversation = buildConversation(request, tone, followUp);
+  const lastTurn = conversation[conversation.length - 1];
+  let messages = conversation;
+  let text = '';
+  let structured: StructuredEmail | null = null;
+  let retries = 0;
+
+  // One attempt; malformed JSON is thrown here too so that it is retried like any transient failure.
+  const generate = async (): Promise<Pick<RefineOutcome, 'text' | 'structured'>> => {
+    let raw = '';
+    const stream = provider.streamText({
+      messages,
+      settings: request.settings,
+      responseSchema: isStructured ? STRUCTURED_EMAIL_SCHEMA : undefined,
+      signal,
+      onUsage,
+    });
+
+    for await (const chunk of stream) {
+      raw += chunk;
+      // Partial JSON is useless to the reader, so structured runs only report the final result.
+      if (!isStructured) onChunk(chunk);
+    }
+    if (!isStructured) return { text: raw, structured: null };
+
+    const email = parseStructuredEmail(raw);
+    if (!email) throw new CategorizedError('malformed_output', `${provider.name} returned malformed structured output.`);
+    return { text: renderStructuredEmail(email), structured: email };
+  };
+
+  for (; ; retries++) {
+    ({ text, structured } = await withBackoff(generate, { signal, onBackoff }));
+
+    // In structured mode only the body counts towards the length rule.
+    const report = checkGuardrails(text, request.draft, request.avoidWords, structured?.body, request.maxLengthRatio);
+    if (report.passed || !text || retries >= request.maxRetries) break;
+
+    onRetry(retries + 1, report);
+    messages = [
+      ...conversation.slice(0, -1),
+      { role: 'user', text: GUARDRAIL_RETRY_PROMPT.render({ basePrompt: lastTurn.text, previousOutput: text, report }) },
+    ];
+  }
+
+  const templates: PromptTemplate<never>[] = [REFINE_PROMPT];
+  if (followUp) templates.push(FOLLOW_UP_PROMPT);
+  // The final attempt came from the retry template whenever a retry happened.
+  if (retries > 0) templates.push(GUARDRAIL_RETRY_PROMPT);
+  return { text: text || 'No response generated.', structured, promptVersion: templates.map(templateVersion).join('+') };
+}
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import type { ApiErrorBody, DraftRecord } from '../../src/types.ts';
+import { deleteDraft, getDraft, getThread, listDrafts } from '../history.ts';
+
+export const draftsRouter = Router();
+
+draftsRouter.get<never, DraftRecord[], never, { q?: string }>('/drafts', (req, res) => {
+  res.json(listDrafts(typeof req.query.q === 'string' ? req.query.q : ''));
+});
+
+draftsRouter.get<{ id: string }, DraftRecord | ApiErrorBody>('/drafts/:id', (req, res) => {
+  const draft = getDraft(Number(req.params.id));
+  if (!draft) {
+    res.status(404).json({ error: 'Draft not found.' });
+    return;
+  }
+  res.json(draft);
+});
+
+draftsRouter.get<{ id: string }, DraftRecord[] | ApiErrorBody>('/drafts/:id/thread', (req, res) => {
+  const thread = getThread(Number(req.params.id));
+  if (thread.length === 0) {
+    res.status(404).json({ error: 'Draft not found.' });
+    return;
+  }
+  res.json(thread);
+});
+
+draftsRouter.delete<{ id: string }, ApiErrorBody>('/drafts/:id', (req, res) => {
+  if (!deleteDraft(Number(req.params.id))) {
+    res.status(404).json({ error: 'Draft not found.' });
+    return;
+  }
+  res.status(204).end();
+});
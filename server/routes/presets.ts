@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import {
+  parseGuardrailPresetExport,
+  parseGuardrailPresetInput,
+  type GuardrailPreset,
+} from '../../src/presets.ts';
+import type { ApiErrorBody } from '../../src/types.ts';
+import {
+  createPreset,
+  deletePreset,
+  importPresets,
+  listPresets,
+  presetNameTaken,
+  updatePreset,
+} from '../presets.ts';
+
+export const presetsRouter = Router();
+
+presetsRouter.get<never, GuardrailPreset[]>('/presets', (_req, res) => {
+  res.json(listPresets());
+});
+
+presetsRouter.post<never, GuardrailPreset | ApiErrorBody>('/presets', (req, res) => {
+  const input = parseGuardrailPresetInput(req.body);
+  if (!input) {
+    res.status(400).json({ error: 'Invalid guardrail preset.' });
+    return;
+  }
+  if (presetNameTaken(input.name)) {
+    res.status(409).json({ error: `A preset named "${input.name}" already exists.` });
+    return;
+  }
+  res.status(201).json(createPreset(input));
+});
+
+presetsRouter.post<never, GuardrailPreset[] | ApiErrorBody>('/presets/import', (req, res) => {
+  const inputs = parseGuardrailPresetExport(req.body);
+  if (!inputs) {
+    res.status(400).json({ error: 'Invalid presets file.' });
+    return;
+  }
+  res.json(importPresets(inputs));
+});
+
+presetsRouter.put<{ id: string }, GuardrailPreset | ApiErrorBody>('/presets/:id', (req, res) => {
+  const input = parseGuardrailPresetInput(req.body);
+  if (!input) {
+    res.status(400).json({ error: 'Invalid guardrail preset.' });
+    return;
+  }
+  if (presetNameTaken(input.name, req.params.id)) {
+    res.status(409).json({ error: `A preset named "${input.name}" already exists.` });
+    return;
+  }
+  const preset = updatePreset(req.params.id, input);
+  if (!preset) {
+    res.status(404).json({ error: 'Preset not found.' });
+    return;
+  }
+  res.json(preset);
+});
+
+presetsRouter.delete<{ id: string }, ApiErrorBody>('/presets/:id', (req, res) => {
+  if (!deletePreset(req.params.id)) {
+    res.status(404).json({ error: 'Preset not found.' });
+    return;
+  }
+  res.status(204).end();
+});
@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router, type Response } from 'express';
+import { ERROR_MESSAGES } from '../../src/errors.ts';
+import { DEFAULT_LENGTH_RATIO, MAX_GUARDRAIL_RETRIES, isValidLengthRatio } from '../../src/guardrails.ts';
+import { defaultSettings, parseGenerationSettings } from '../../src/models.ts';
+import { parseStructuredEmail } from '../../src/structured.ts';
+import { parseThreadMessages } from '../../src/thread.ts';
+import type { ToneProfile } from '../../src/tones.ts';
+import type { ApiErrorBody, DraftRecord, RefineRequest, RefineStreamEvent } from '../../src/types.ts';
+import type { UsageOutcome } from '../../src/usage.ts';
+import { getThread, saveDraft } from '../history.ts';
+import { classifyError } from '../errors.ts';
+import { ACTIONS } from '../prompt.ts';
+import { getProvider } from '../providers/index.ts';
+import { limitGenerations } from '../rateLimit.ts';
+import { refine, type FollowUp } from '../refiner.ts';
+import { getTone } from '../tones.ts';
+import { recordUsage } from '../usage.ts';
+import { getUserId } from '../users.ts';
+
+const MAX_INSTRUCTION_LENGTH = 500;
+
+function parseRefineRequest(body: unknown): RefineRequest | null {
+  if (!body || typeof body !== 'object') return null;
+  const {
+    draft,
+    tone,
+    action,
+    avoidWords,
+    maxRetries = 0,
+    maxLengthRatio = DEFAULT_LENGTH_RATIO,
+    context = [],
+    format = 'text',
+    settings = defaultSettings(getProvider().defaultModel),
+  } = body as Record<string, unknown>;
+
+  if (typeof draft !== 'string' || !draft.trim()) return null;
+  if (typeof tone !== 'string' || !tone) return null;
+  if (!ACTIONS.includes(action as RefineRequest['action'])) return null;
+  if (!Array.isArray(avoidWords) || !avoidWords.every((w) => typeof w === 'string')) return null;
+  if (format !== 'text' && format !== 'structured') return null;
+  const generationSettings = parseGenerationSettings(settings, getProvider().models);
+  if (!generationSettings) return null;
+  if (!Number.isInteger(maxRetries) || (maxRetries as number) < 0 || (maxRetries as number) > MAX_GUARDRAIL_RETRIES) return null;
+  if (!isValidLengthRatio(maxLengthRatio)) return null;
+  const thread = parseThreadMessages(context);
+  if (!thread) return null;
+
+  return {
+    draft,
+    tone,
+    action: action as RefineRequest['action'],
+    avoidWords,
+    maxRetries: maxRetries as number,
+    maxLengthRatio,
+    format,
+    settings: generationSettings,
+    context: thread,
+  };
+}
+
+/** A follow-up's `edited` field: undefined when absent, null when malformed. */
+function parseEdited(value: unknown): Pick<DraftRecord, 'output' | 'structured'> | null | undefined {
+  if (value === undefined) return undefined;
+  if (!value || typeof value !== 'object') return null;
+  const { output, structured } = value as Record<string, unknown>;
+  if (typeof output !== 'string' || !output.trim()) return null;
+  if (structured === null) return { output, structured: null };
+  const email = parseStructuredEmail(JSON.stringify(structured));
+  return email && { output, structured: email };
+}
+
+function writeEvent(res: Response, event: RefineStreamEvent) {
+  res.write(`${JSON.stringify(event)}\n`);
+}
+
+/**
+ * Streams one refinement as NDJSON and saves the result; follow-ups are saved as children of `parentId`.
+ * Token usage is recorded however the request ends, since failed and stopped attempts are billed too.
+ */
+async function streamRefinement(
+  res: Response,
+  request: RefineRequest,
+  tone: ToneProfile,
+  followUp?: FollowUp & { parentId: number },
+) {
+  // The browser aborting its fetch closes the response; stop pulling tokens from the provider too.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.status(200).type('application/x-ndjson');
+  res.flushHeaders();
+
+  const provider = getProvider();
+  const startedAt = Date.now();
+  const usage = { inputTokens: 0, outputTokens: 0, attempts: 1 };
+  let outcome: UsageOutcome = 'aborted';
+  let draftId: number | null = null;
+  try {
+    const { text, structured, promptVersion } = await refine(request, tone, provider, {
+      signal: controller.signal,
+      onChunk: (text) => writeEvent(res, { type: 'chunk', text }),
+      // The client discards the streamed text it has so far when it sees a retry.
+      onRetry: (attempt, report) => {
+        usage.attempts++;
+        writeEvent(res, { type: 'retry', attempt, report });
+      },
+      // Likewise on a backoff, which restarts the same attempt after a transient provider failure.
+      onBackoff: (attempt, delayMs, category) => {
+        usage.attempts++;
+        writeEvent(res, { type: 'backoff', attempt, delayMs, category });
+      },
+      onUsage: ({ inputTokens, outputTokens }) => {
+        usage.inputTokens += inputTokens;
+        usage.outputTokens += outputTokens;
+      },
+    }, followUp);
+
+    const parent = followUp && { parentId: followUp.parentId, instruction: followUp.instruction };
+    const draft = saveDraft(request, { output: text, structured, promptVersion }, parent);
+    outcome = 'done';
+    draftId = draft.id;
+    writeEvent(res, { type: 'done', text, model: request.settings.model, draft });
+  } catch (err) {
+    if (!controller.signal.aborted) {
+      const { category } = classifyError(err);
+      outcome = category;
+      console.error(`Refinement error (${category}):`, err);
+      // Provider messages can carry keys or internals, so the client only gets the category's own text.
+      writeEvent(res, { type: 'error', error: ERROR_MESSAGES[category], category });
+    }
+  }
+
+  recordUsage({
+    ...usage,
+    userId: getUserId(res.req),
+    provider: provider.name,
+    model: request.settings.model,
+    action: followUp ? 'follow-up' : request.action,
+    latencyMs: Date.now() - startedAt,
+    outcome,
+    draftId,
+  });
+  if (!controller.signal.aborted) res.end();
+}
+
+/** Express 4 does not catch rejections from async handlers, so an unexpected throw would end the process. */
+function failRequest(res: Response, err: unknown) {
+  console.error('Refine route error:', err);
+  if (res.headersSent) res.end();
+  else res.status(500).json({ error: ERROR_MESSAGES.unknown, category: 'unknown' });
+}
+
+async function handleRefine(body: unknown, res: Response<ApiErrorBody>) {
+  const request = parseRefineRequest(body);
+  if (!request) {
+    res.status(400).json({ error: 'Invalid refine request.' });
+    return;
+  }
+
+  const tone = getTone(request.tone);
+  if (!tone) {
+    res.status(400).json({ error: 'Unknown tone.' });
+    return;
+  }
+
+  await streamRefinement(res, request, tone);
+}
+
+async function handleFollowUp(rawBody: unknown, res: Response<ApiErrorBody>) {
+  const body = (rawBody ?? {}) as Record<string, unknown>;
+  const { draftId, instruction } = body;
+  const edited = parseEdited(body.edited);
+  if (!Number.isInteger(draftId) || typeof instruction !== 'string' || !instruction.trim() || edited === null) {
+    res.status(400).json({ error: 'Invalid follow-up request.' });
+    return;
+  }
+  if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+    res.status(400).json({ error: `Follow-up instructions are limited to ${MAX_INSTRUCTION_LENGTH} characters.` });
+    return;
+  }
+
+  const thread = getThread(draftId as number);
+  if (thread.length === 0) {
+    res.status(404).json({ error: 'Draft not found.' });
+    return;
+  }
+
+  // Every version in a thread keeps the original draft, tone, action, format and email-thread context; only the guardrails
+  // and model settings come from the follow-up itself. A version the user edited is revised as edited, in its edited format.
+  const latest = thread[thread.length - 1];
+  const revised = edited ? { ...latest, ...edited } : latest;
+  const request = parseRefineRequest({
+    ...body,
+    draft: latest.draft,
+    tone: latest.tone,
+    action: latest.action,
+    context: latest.context,
+    format: revised.structured ? 'structured' : 'text',
+  });
+  if (!request) {
+    res.status(400).json({ error: 'Invalid follow-up request.' });
+    return;
+  }
+
+  const tone = getTone(request.tone);
+  if (!tone) {
+    res.status(400).json({ error: 'The tone this draft used no longer exists.' });
+    return;
+  }
+
+  await streamRefinement(res, request, tone, {
+    thread: [...thread.slice(0, -1), revised],
+    instruction: instruction.trim(),
+    parentId: latest.id,
+  });
+}
+
+export const refineRouter = Router();
+
+refineRouter.post<never, ApiErrorBody>('/refine', limitGenerations, async (req, res) => {
+  try {
+    await handleRefine(req.body, res);
+  } catch (err) {
+    failRequest(res, err);
+  }
+});
+
+refineRouter.post<never, ApiErrorBody>('/refine/follow-up', limitGenerations, async (req, res) => {
+  try {
+    await handleFollowUp(req.body, res);
+  } catch (err) {
+    failRequest(res, err);
+  }
+});
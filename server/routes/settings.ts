@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { parseGenerationSettings, type GenerationSettings, type ModelCatalog } from '../../src/models.ts';
+import type { ApiErrorBody } from '../../src/types.ts';
+import { getProvider } from '../providers/index.ts';
+import { getSettings, saveSettings } from '../settings.ts';
+import { getUserId } from '../users.ts';
+
+export const settingsRouter = Router();
+
+settingsRouter.get<never, ModelCatalog>('/models', (_req, res) => {
+  const { name, models, defaultModel } = getProvider();
+  res.json({ provider: name, models, defaultModel });
+});
+
+settingsRouter.get<never, GenerationSettings>('/settings', (req, res) => {
+  res.json(getSettings(getUserId(req)));
+});
+
+settingsRouter.put<never, GenerationSettings | ApiErrorBody>('/settings', (req, res) => {
+  const settings = parseGenerationSettings(req.body, getProvider().models);
+  if (!settings) {
+    res.status(400).json({ error: 'Invalid generation settings.' });
+    return;
+  }
+  res.json(saveSettings(getUserId(req), settings));
+});
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import type { ApiErrorBody } from '../../src/types.ts';
+import {
+  TONE_COLORS,
+  TONE_ICONS,
+  isBuiltInTone,
+  type ToneProfile,
+  type ToneProfileInput,
+} from '../../src/tones.ts';
+import { createTone, deleteTone, listTones, updateTone } from '../tones.ts';
+
+const MAX_LABEL_LENGTH = 40;
+const MAX_INSTRUCTIONS_LENGTH = 2000;
+
+function parseToneInput(body: unknown): ToneProfileInput | null {
+  if (!body || typeof body !== 'object') return null;
+  const { label, icon, color, description, instructions } = body as Record<string, unknown>;
+
+  if (typeof label !== 'string' || !label.trim() || label.length > MAX_LABEL_LENGTH) return null;
+  if (!TONE_ICONS.includes(icon as ToneProfileInput['icon'])) return null;
+  if (!TONE_COLORS.includes(color as ToneProfileInput['color'])) return null;
+  if (description !== undefined && typeof description !== 'string') return null;
+  if (typeof instructions !== 'string' || !instructions.trim() || instructions.length > MAX_INSTRUCTIONS_LENGTH) return null;
+
+  return {
+    label: label.trim(),
+    icon: icon as ToneProfileInput['icon'],
+    color: color as ToneProfileInput['color'],
+    description: typeof description === 'string' ? description.trim() : '',
+    instructions: instructions.trim(),
+  };
+}
+
+export const tonesRouter = Router();
+
+tonesRouter.get<never, ToneProfile[]>('/tones', (_req, res) => {
+  res.json(listTones());
+});
+
+tonesRouter.post<never, ToneProfile | ApiErrorBody>('/tones', (req, res) => {
+  const input = parseToneInput(req.body);
+  if (!input) {
+    res.status(400).json({ error: 'Invalid tone profile.' });
+    return;
+  }
+  res.status(201).json(createTone(input));
+});
+
+tonesRouter.put<{ id: string }, ToneProfile | ApiErrorBody>('/tones/:id', (req, res) => {
+  if (isBuiltInTone(req.params.id)) {
+    res.status(403).json({ error: 'Built-in tones cannot be edited.' });
+    return;
+  }
+  const input = parseToneInput(req.body);
+  if (!input) {
+    res.status(400).json({ error: 'Invalid tone profile.' });
+    return;
+  }
+  const tone = updateTone(req.params.id, input);
+  if (!tone) {
+    res.status(404).json({ error: 'Tone not found.' });
+    return;
+  }
+  res.json(tone);
+});
+
+tonesRouter.delete<{ id: string }, ApiErrorBody>('/tones/:id', (req, res) => {
+  if (isBuiltInTone(req.params.id)) {
+    res.status(403).json({ error: 'Built-in tones cannot be deleted.' });
+    return;
+  }
+  if (!deleteTone(req.params.id)) {
+    res.status(404).json({ error: 'Tone not found.' });
+    return;
+  }
+  res.status(204).end();
+});
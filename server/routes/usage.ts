@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import type { ApiErrorBody } from '../../src/types.ts';
+import { DEFAULT_USAGE_PERIOD, USAGE_PERIODS, parseModelPrices, type ModelPrice, type UsageReport } from '../../src/usage.ts';
+import { getUsageReport, listModelPrices, saveModelPrices } from '../usage.ts';
+
+export const usageRouter = Router();
+
+usageRouter.get<never, UsageReport>('/usage', (req, res) => {
+  const days = Number(req.query.days);
+  res.json(getUsageReport(USAGE_PERIODS.includes(days) ? days : DEFAULT_USAGE_PERIOD));
+});
+
+usageRouter.get<never, ModelPrice[]>('/usage/prices', (_req, res) => {
+  res.json(listModelPrices());
+});
+
+usageRouter.put<never, ModelPrice[] | ApiErrorBody>('/usage/prices', (req, res) => {
+  const prices = parseModelPrices((req.body as { prices?: unknown } | undefined)?.prices);
+  if (!prices) {
+    res.status(400).json({ error: 'Invalid model prices.' });
+    return;
+  }
+  res.json(saveModelPrices(prices));
+});
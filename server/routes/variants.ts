@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from 'express';
+import { MAX_VARIANTS, type ApiErrorBody, type VariantPickRequest, type VariantStats } from '../../src/types.ts';
+import { ACTIONS } from '../prompt.ts';
+import { getVariantStats, recordVariantPick } from '../variants.ts';
+
+function parsePickRequest(body: unknown): VariantPickRequest | null {
+  if (!body || typeof body !== 'object') return null;
+  const { groupId, candidates, pickedDraftId } = body as Record<string, unknown>;
+
+  if (typeof groupId !== 'string' || !groupId) return null;
+  if (!Array.isArray(candidates) || candidates.length < 2 || candidates.length > MAX_VARIANTS) return null;
+  const valid = candidates.every((c) =>
+    c && typeof c === 'object'
+    && Number.isInteger(c.draftId)
+    && typeof c.tone === 'string'
+    && ACTIONS.includes(c.action));
+  if (!valid) return null;
+  if (!candidates.some((c) => c.draftId === pickedDraftId)) return null;
+
+  return { groupId, candidates, pickedDraftId: pickedDraftId as number };
+}
+
+export const variantsRouter = Router();
+
+variantsRouter.post<never, ApiErrorBody>('/variants/picks', (req, res) => {
+  const pick = parsePickRequest(req.body);
+  if (!pick) {
+    res.status(400).json({ error: 'Invalid variant pick.' });
+    return;
+  }
+  recordVariantPick(pick);
+  res.status(204).end();
+});
+
+variantsRouter.get<never, VariantStats>('/variants/stats', (_req, res) => {
+  res.json(getVariantStats());
+});
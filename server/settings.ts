@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { defaultSettings, parseGenerationSettings, type GenerationSettings } from '../src/models.ts';
+import { getDb } from './db.ts';
+import { getProvider } from './providers/index.ts';
+
+export function getSettings(userId: string): GenerationSettings {
+  const row = getDb()
+    .prepare('SELECT settings FROM user_settings WHERE user_id = ?')
+    .get(userId) as { settings: string } | undefined;
+  // Settings naming a model the current provider lacks are stale; start over from the provider's defaults.
+  const provider = getProvider();
+  return (row && parseGenerationSettings(JSON.parse(row.settings), provider.models))
+    || defaultSettings(provider.defaultModel);
+}
+
+export function saveSettings(userId: string, settings: GenerationSettings): GenerationSettings {
+  getDb()
+    .prepare(
+      `INSERT INTO user_settings (user_id, settings) VALUES (?, ?)
+       ON CONFLICT (user_id) DO UPDATE SET settings = excluded.settings, updated_at = excluded.updated_at`,
+    )
+    .run(userId, JSON.stringify(settings));
+  return settings;
+}
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Plain JSON Schema, so every provider can enforce it (Gemini's responseJsonSchema, OpenAI's json_schema).
+export const STRUCTURED_EMAIL_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    subject: { type: 'string', description: 'A specific, scannable email subject line.' },
+    tldr: { type: 'string', description: 'A single-sentence summary of the email.' },
+    body: { type: 'string', description: 'The email body in Markdown, without the subject or TL;DR.' },
+    actionItems: {
+      type: 'array',
+      description: 'Action items found in the draft. Empty if there are none.',
+      items: {
+        type: 'object',
+        properties: {
+          owner: { type: 'string', description: 'Person or team responsible; empty if not stated.' },
+          task: { type: 'string' },
+          due: { type: 'string', description: 'Due date exactly as stated in the draft; empty if not stated.' },
+        },
+        required: ['owner', 'task', 'due'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['subject', 'tldr', 'body', 'actionItems'],
+  additionalProperties: false,
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'crypto';
+import { BUILT_IN_TONES, type ToneProfile, type ToneProfileInput } from '../src/tones.ts';
+import { getDb } from './db.ts';
+
+interface ToneRow {
+  id: string;
+  label: string;
+  icon: string;
+  color: string;
+  description: string;
+  instructions: string;
+}
+
+function toProfile(row: ToneRow): ToneProfile {
+  return {
+    id: row.id,
+    label: row.label,
+    icon: row.icon as ToneProfile['icon'],
+    color: row.color as ToneProfile['color'],
+    description: row.description,
+    instructions: row.instructions,
+    builtIn: false,
+  };
+}
+
+export function listTones(): ToneProfile[] {
+  const rows = getDb().prepare('SELECT * FROM tone_profiles ORDER BY created_at, id').all() as ToneRow[];
+  return [...BUILT_IN_TONES, ...rows.map(toProfile)];
+}
+
+export function getTone(id: string): ToneProfile | null {
+  const builtIn = BUILT_IN_TONES.find((tone) => tone.id === id);
+  if (builtIn) return builtIn;
+  const row = getDb().prepare('SELECT * FROM tone_profiles WHERE id = ?').get(id) as ToneRow | undefined;
+  return row ? toProfile(row) : null;
+}
+
+export function createTone(input: ToneProfileInput): ToneProfile {
+  const row = getDb()
+    .prepare(
+      `INSERT INTO tone_profiles (id, label, icon, color, description, instructions)
+       VALUES (@id, @label, @icon, @color, @description, @instructions)
+       RETURNING *`,
+    )
+    .get({ id: randomUUID(), ...input }) as ToneRow;
+  return toProfile(row);
+}
+
+export function updateTone(id: string, input: ToneProfileInput): ToneProfile | null {
+  const row = getDb()
+    .prepare(
+      `UPDATE tone_profiles
+       SET label = @label, icon = @icon, color = @color, description = @description, instructions = @instructions
+       WHERE id = @id
+       RETURNING *`,
+    )
+    .get({ id, ...input }) as ToneRow | undefined;
+  return row ? toProfile(row) : null;
+}
+
+export function deleteTone(id: string): boolean {
+  return getDb().prepare('DELETE FROM tone_profiles WHERE id = ?').run(id).changes > 0;
+}
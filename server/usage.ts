@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ModelPrice, TokenUsage, UsageOutcome, UsageReport, UsageRow } from '../src/usage.ts';
+import { getDb } from './db.ts';
+
+export interface UsageEvent extends TokenUsage {
+  userId: string;
+  provider: string;
+  model: string;
+  // The refine action, or 'follow-up'.
+  action: string;
+  latencyMs: number;
+  attempts: number;
+  outcome: UsageOutcome;
+  draftId: number | null;
+}
+
+/** One row per generation request, however many provider calls its retries and backoffs took. */
+export function recordUsage(event: UsageEvent) {
+  getDb()
+    .prepare(
+      `INSERT INTO usage_events
+         (user_id, provider, model, action, input_tokens, output_tokens, latency_ms, attempts, outcome, draft_id)
+       VALUES (@userId, @provider, @model, @action, @inputTokens, @outputTokens, @latencyMs, @attempts, @outcome, @draftId)`,
+    )
+    .run(event);
+}
+
+const GROUPINGS = {
+  total: `'all'`,
+  byDay: 'substr(u.created_at, 1, 10)',
+  byUser: 'u.user_id',
+  byAction: 'u.action',
+  byModel: 'u.model',
+};
+
+function usageBy(expression: string, since: string): UsageRow[] {
+  return getDb()
+    .prepare(
+      `SELECT ${expression} AS key,
+         COUNT(*) AS requests,
+         SUM(u.outcome NOT IN ('done', 'aborted')) AS failed,
+         SUM(u.input_tokens) AS inputTokens,
+         SUM(u.output_tokens) AS outputTokens,
+         ROUND(AVG(u.latency_ms)) AS avgLatencyMs,
+         COALESCE(SUM((u.input_tokens * p.input_per_million + u.output_tokens * p.output_per_million) / 1e6), 0) AS cost,
+         SUM(p.model IS NULL) AS unpriced
+       FROM usage_events u
+       LEFT JOIN model_prices p ON p.model = u.model
+       WHERE u.created_at >= ?
+       GROUP BY key
+       ORDER BY ${expression === GROUPINGS.byDay ? 'key DESC' : 'requests DESC'}`,
+    )
+    .all(since) as UsageRow[];
+}
+
+/** Usage over the last `days` days, broken down by day, user, action and model, with estimated cost. */
+export function getUsageReport(days: number): UsageReport {
+  const since = new Date(Date.now() - days * 86_400_000).toISOString();
+  const empty: UsageRow = {
+    key: 'all', requests: 0, failed: 0, inputTokens: 0, outputTokens: 0, avgLatencyMs: 0, cost: 0, unpriced: 0,
+  };
+  return {
+    days,
+    total: usageBy(GROUPINGS.total, since)[0] ?? empty,
+    byDay: usageBy(GROUPINGS.byDay, since),
+    byUser: usageBy(GROUPINGS.byUser, since),
+    byAction: usageBy(GROUPINGS.byAction, since),
+    byModel: usageBy(GROUPINGS.byModel, since),
+  };
+}
+
+export function listModelPrices(): ModelPrice[] {
+  return getDb()
+    .prepare(
+      `SELECT model, input_per_million AS inputPerMillion, output_per_million AS outputPerMillion
+       FROM model_prices
+       ORDER BY model`,
+    )
+    .all() as ModelPrice[];
+}
+
+/** Replaces the whole price list; models left out no longer have a price. */
+export function saveModelPrices(prices: ModelPrice[]): ModelPrice[] {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT INTO model_prices (model, input_per_million, output_per_million)
+     VALUES (@model, @inputPerMillion, @outputPerMillion)`,
+  );
+  db.transaction(() => {
+    db.prepare('DELETE FROM model_prices').run();
+    for (const price of prices) insert.run(price);
+  })();
+  return listModelPrices();
+}
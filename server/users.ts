@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Request } from 'express';
+import { ANONYMOUS_USER } from '../src/types.ts';
+
+export const USER_HEADER = 'x-soldraft-user';
+
+/**
+ * SolDraft has no accounts: each browser sends a stable id it generated itself.
+ * Anything that does not look like one is treated as the shared anonymous user.
+ */
+export function getUserId(req: Request): string {
+  const id = req.get(USER_HEADER);
+  return id && /^[\w-]{8,64}$/.test(id) ? id : ANONYMOUS_USER;
+}
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { PreferenceStat, VariantPickRequest, VariantStats } from '../src/types.ts';
+import { getDb } from './db.ts';
+
+/** Records every variant shown in a group and which one was pinned; re-pinning replaces the earlier pick. */
+export function recordVariantPick({ groupId, candidates, pickedDraftId }: VariantPickRequest) {
+  const db = getDb();
+  const remove = db.prepare('DELETE FROM variant_candidates WHERE group_id = ?');
+  const insert = db.prepare(
+    `INSERT INTO variant_candidates (group_id, draft_id, tone, action, picked)
+     VALUES (@groupId, @draftId, @tone, @action, @picked)`,
+  );
+
+  db.transaction(() => {
+    remove.run(groupId);
+    for (const candidate of candidates) {
+      insert.run({ groupId, ...candidate, picked: candidate.draftId === pickedDraftId ? 1 : 0 });
+    }
+  })();
+}
+
+function statsBy(column: 'tone' | 'action'): PreferenceStat[] {
+  return getDb()
+    .prepare(
+      `SELECT ${column} AS key, COUNT(*) AS shown, SUM(picked) AS picked
+       FROM variant_candidates
+       GROUP BY ${column}
+       ORDER BY picked DESC, shown DESC`,
+    )
+    .all() as PreferenceStat[];
+}
+
+export function getVariantStats(): VariantStats {
+  return { tones: statsBy('tone'), actions: statsBy('action') };
+}
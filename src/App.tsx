@@ -3,17 +3,13 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import React, { useState, useCallback, useDeferredValue, useEffect, useMemo, useRef } from 'react';
 import { 
   Sparkles, 
   RefreshCw, 
   Copy, 
   Check, 
   Mail, 
-  Coffee, 
-  Briefcase, 
-  Smile,
   X,
   Plus,
   AlertCircle,
@@ -22,70 +18,178 @@ import {
   Sun,
   Target,
   Users,
-  Lightbulb
+  Lightbulb,
+  Palette,
+  Square,
+  FileText,
+  GitCompare,
+  Layers,
+  Braces,
+  SlidersHorizontal,
+  LayoutTemplate,
+  BarChart3,
+  Command as CommandIcon
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import Markdown from 'react-markdown';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-// Utility for tailwind classes
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-type Tone = 'professional' | 'fun' | 'casual' | 'authoritative';
-
-interface ToneConfig {
-  id: Tone;
-  label: string;
-  icon: React.ReactNode;
-  activeClass: string;
-  description: string;
-}
-
-const TONES: ToneConfig[] = [
-  { 
-    id: 'authoritative', 
-    label: 'Authoritative', 
-    icon: <Target className="w-4 h-4" />, 
-    activeClass: 'bg-amber-600 text-white shadow-lg shadow-amber-200',
-    description: 'Decisive, strategic, and high-impact for PM leadership.'
-  },
-  { 
-    id: 'professional', 
-    label: 'Professional', 
-    icon: <Briefcase className="w-4 h-4" />, 
-    activeClass: 'bg-indigo-600 text-white shadow-lg shadow-indigo-200',
-    description: 'Polished, clear, and stakeholder-ready.'
-  },
-  { 
-    id: 'casual', 
-    label: 'Casual', 
-    icon: <Coffee className="w-4 h-4" />, 
-    activeClass: 'bg-emerald-500 text-white shadow-lg shadow-emerald-100',
-    description: 'Warm, approachable, and team-friendly.'
-  },
-  { 
-    id: 'fun', 
-    label: 'Fun', 
-    icon: <Smile className="w-4 h-4" />, 
-    activeClass: 'bg-orange-500 text-white shadow-lg shadow-orange-100',
-    description: 'Quirky, energetic, and full of personality.'
-  },
-];
+import Markdown, { type Options as MarkdownOptions } from 'react-markdown';
+import { AnalyticsPanel } from './components/AnalyticsPanel.tsx';
+import { CommandPalette, type Command } from './components/CommandPalette.tsx';
+import { DiffView } from './components/DiffView.tsx';
+import { ExportMenu } from './components/ExportMenu.tsx';
+import { FollowUpPanel } from './components/FollowUpPanel.tsx';
+import { GuardrailPresetBar } from './components/GuardrailPresetBar.tsx';
+import { GuardrailReportBar } from './components/GuardrailReportBar.tsx';
+import { HistoryPanel } from './components/HistoryPanel.tsx';
+import { OpenQuestionsBar } from './components/OpenQuestionsBar.tsx';
+import { SettingsPanel } from './components/SettingsPanel.tsx';
+import { ShortcutsHelp } from './components/ShortcutsHelp.tsx';
+import { StructuredEmailEditor } from './components/StructuredEmailEditor.tsx';
+import { TemplateLibrary } from './components/TemplateLibrary.tsx';
+import { ThreadContextInput } from './components/ThreadContextInput.tsx';
+import { ToneEditor } from './components/ToneEditor.tsx';
+import { VariantGrid, type Variant } from './components/VariantGrid.tsx';
+import { UsageDashboard } from './components/UsageDashboard.tsx';
+import { VariantStatsPanel } from './components/VariantStatsPanel.tsx';
+import * as api from './lib/api.ts';
+import { copyRichText, markdownToPlainText } from './lib/export.ts';
+import { rehypeHighlightMatches } from './lib/highlightMatches.ts';
+import {
+  comboFromEvent,
+  findShortcut,
+  formatCombo,
+  loadBindings,
+  saveBindings,
+  worksWhileTyping,
+  type ShortcutBindings,
+  type ShortcutId,
+} from './lib/shortcuts.ts';
+import { TONE_ACTIVE_CLASSES, ToneIconView } from './lib/toneStyles.tsx';
+import { cn } from './lib/utils.ts';
+import { analyzeText, readingEaseLabel } from './analytics.ts';
+import { CategorizedError, ERROR_LABELS, describeError, isTransientError, type ErrorCategory } from './errors.ts';
+import {
+  DEFAULT_LENGTH_RATIO,
+  LENGTH_RATIO_OPTIONS,
+  MAX_GUARDRAIL_RETRIES,
+  checkGuardrails,
+  findAvoidWordMatches,
+} from './guardrails.ts';
+import { defaultSettings, describeSettings, type GenerationSettings, type ModelCatalog } from './models.ts';
+import type { GuardrailPreset, GuardrailPresetInput } from './presets.ts';
+import { renderStructuredBody, renderStructuredEmail, type OutputFormat, type StructuredEmail } from './structured.ts';
+import type { EmailTemplate } from './templates.ts';
+import { findQuestions, findUnansweredQuestions, formatThread, parseThread, type ThreadMessage } from './thread.ts';
+import { BUILT_IN_TONES, DEFAULT_TONE_ID, type ToneProfile, type ToneProfileInput } from './tones.ts';
+import { MAX_VARIANTS, type DraftRecord, type FollowUpRequest, type RefineAction, type RefineRequest, type VariantStats } from './types.ts';
 
 export default function App() {
   const [input, setInput] = useState('');
   const [output, setOutput] = useState('');
-  const [selectedTone, setSelectedTone] = useState<Tone>('professional');
+  // The draft text that produced `output`, so the diff stays stable while the input is edited.
+  const [outputSource, setOutputSource] = useState('');
+  // The email thread being replied to, as pasted or uploaded, and the thread behind `output`.
+  const [contextText, setContextText] = useState('');
+  const [outputContext, setOutputContext] = useState<ThreadMessage[]>([]);
+  const contextMessages = useMemo(() => parseThread(contextText), [contextText]);
+  const [viewMode, setViewMode] = useState<'result' | 'diff'>('result');
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('text');
+  // The editable parts of a structured output; `output` always holds its Markdown rendering.
+  const [structured, setStructured] = useState<StructuredEmail | null>(null);
+  const [selectedTone, setSelectedTone] = useState<string>(DEFAULT_TONE_ID);
   const [isLoading, setIsLoading] = useState(false);
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Re-runs the request that just failed, when trying again could help.
+  const [retryFailed, setRetryFailed] = useState<(() => void) | null>(null);
   
   // Words to avoid
   const [avoidWords, setAvoidWords] = useState<string[]>(['please']);
   const [newAvoidWord, setNewAvoidWord] = useState('');
+  const [maxRetries, setMaxRetries] = useState(1);
+  const [retryAttempt, setRetryAttempt] = useState(0);
+  // Set while the server waits out a transient provider failure before starting over.
+  const [backoff, setBackoff] = useState<{ attempt: number; category: ErrorCategory } | null>(null);
+  const [maxLengthRatio, setMaxLengthRatio] = useState(DEFAULT_LENGTH_RATIO);
+
+  // Team guardrail presets, shared through the server
+  const [presets, setPresets] = useState<GuardrailPreset[]>([]);
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+
+  // Per-user model settings, and the settings that produced the visible output
+  // The model list depends on the server's LLM provider, so both arrive from the API.
+  const [settings, setSettings] = useState<GenerationSettings>(() => defaultSettings(''));
+  const [outputSettings, setOutputSettings] = useState<GenerationSettings | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [modelCatalog, setModelCatalog] = useState<ModelCatalog | null>(null);
+
+  useEffect(() => {
+    api.fetchModels()
+      .then(setModelCatalog)
+      .catch((err) => console.error('Models error:', err));
+    api.fetchSettings()
+      .then(setSettings)
+      .catch((err) => console.error('Settings error:', err));
+  }, []);
+
+  const saveSettings = async (next: GenerationSettings) => {
+    setSettings(await api.saveSettings(next));
+  };
+
+  // Built-in and custom tone profiles
+  const [tones, setTones] = useState<ToneProfile[]>(BUILT_IN_TONES);
+  const [isToneEditorOpen, setIsToneEditorOpen] = useState(false);
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+
+  // Keyboard shortcuts, customisable per browser, and the command palette
+  const [shortcutBindings, setShortcutBindings] = useState<ShortcutBindings>(loadBindings);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const historySearchRef = useRef<HTMLInputElement>(null);
+  const avoidWordInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    api.fetchTones()
+      .then(setTones)
+      .catch((err) => console.error('Tone error:', err));
+  }, []);
+
+  const saveTone = async (input: ToneProfileInput, id: string | null) => {
+    const tone = id ? await api.updateTone(id, input) : await api.createTone(input);
+    setTones((current) => id
+      ? current.map((t) => (t.id === id ? tone : t))
+      : [...current, tone]);
+  };
+
+  const removeTone = async (tone: ToneProfile) => {
+    try {
+      await api.deleteTone(tone.id);
+      setTones((current) => current.filter((t) => t.id !== tone.id));
+      if (selectedTone === tone.id) setSelectedTone(DEFAULT_TONE_ID);
+    } catch (err) {
+      console.error('Tone error:', err);
+    }
+  };
+
+  // Persisted draft history
+  const [history, setHistory] = useState<DraftRecord[]>([]);
+  const [historyQuery, setHistoryQuery] = useState('');
+  const [activeDraftId, setActiveDraftId] = useState<number | null>(null);
+  // Follow-up versions of the visible output, oldest first
+  const [versions, setVersions] = useState<DraftRecord[]>([]);
+
+  const loadHistory = useCallback(async (query: string) => {
+    try {
+      setHistory(await api.fetchDrafts(query));
+    } catch (err) {
+      console.error('History error:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadHistory(historyQuery), 200);
+    return () => clearTimeout(timer);
+  }, [historyQuery, loadHistory]);
 
   const addAvoidWord = () => {
     if (newAvoidWord.trim() && !avoidWords.includes(newAvoidWord.trim().toLowerCase())) {
@@ -98,72 +202,541 @@ export default function App() {
     setAvoidWords(avoidWords.filter(w => w !== word));
   };
 
-  const handleRefine = useCallback(async (action: 'rephrase' | 'refine' | 'improve') => {
-    if (!input.trim()) return;
+  useEffect(() => {
+    api.fetchPresets()
+      .then(setPresets)
+      .catch((err) => console.error('Presets error:', err));
+  }, []);
+
+  const activePreset = presets.find((p) => p.id === activePresetId) ?? null;
+  const isPresetModified = !!activePreset && (
+    activePreset.tone !== selectedTone
+    || activePreset.maxLengthRatio !== maxLengthRatio
+    || activePreset.avoidWords.length !== avoidWords.length
+    || activePreset.avoidWords.some((w) => !avoidWords.includes(w))
+  );
+
+  const currentPresetInput = (name: string): GuardrailPresetInput => ({
+    name,
+    tone: selectedTone,
+    avoidWords,
+    maxLengthRatio,
+  });
+
+  const applyPreset = (preset: GuardrailPreset | null) => {
+    setActivePresetId(preset?.id ?? null);
+    if (!preset) return;
+    setAvoidWords(preset.avoidWords);
+    setMaxLengthRatio(preset.maxLengthRatio);
+    if (tones.some((t) => t.id === preset.tone)) setSelectedTone(preset.tone);
+  };
+
+  const savePresetAs = async (name: string) => {
+    const preset = await api.createPreset(currentPresetInput(name));
+    setPresets((current) => [...current, preset].sort((a, b) => a.name.localeCompare(b.name)));
+    setActivePresetId(preset.id);
+  };
+
+  const updateActivePreset = async () => {
+    if (!activePreset) return;
+    const preset = await api.updatePreset(activePreset.id, currentPresetInput(activePreset.name));
+    setPresets((current) => current.map((p) => (p.id === preset.id ? preset : p)));
+  };
+
+  const deleteActivePreset = async () => {
+    if (!activePreset) return;
+    await api.deletePreset(activePreset.id);
+    setPresets((current) => current.filter((p) => p.id !== activePreset.id));
+    setActivePresetId(null);
+  };
+
+  const importPresets = async (inputs: GuardrailPresetInput[]) => {
+    await api.importPresets(inputs);
+    setPresets(await api.fetchPresets());
+  };
+
+  // Multi-variant runs and the team's recorded picks
+  const [variantCount, setVariantCount] = useState(1);
+  const [variantMode, setVariantMode] = useState<'same' | 'mixed'>('mixed');
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [variantGroupId, setVariantGroupId] = useState<string | null>(null);
+  const [pinnedVariantKey, setPinnedVariantKey] = useState<string | null>(null);
+  const [variantStats, setVariantStats] = useState<VariantStats>({ tones: [], actions: [] });
+
+  const loadVariantStats = useCallback(async () => {
+    try {
+      setVariantStats(await api.fetchVariantStats());
+    } catch (err) {
+      console.error('Variant stats error:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVariantStats();
+  }, [loadVariantStats]);
+
+  // Only one refinement streams at a time; starting another aborts the current one.
+  const abortRef = useRef<AbortController | null>(null);
+
+  const stopRefine = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => stopRefine, [stopRefine]);
+
+  // A follow-up revises `parent` in the same chat; otherwise the run starts a new version history.
+  const runRefine = useCallback(async (
+    request: RefineRequest,
+    followUp?: Pick<FollowUpRequest, 'instruction' | 'edited'> & { parent: DraftRecord },
+  ) => {
+    if (!request.draft.trim()) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     setIsLoading(true);
     setError(null);
-    
+    setRetryFailed(null);
+    setOutput('');
+    setStructured(null);
+    setOutputSettings(request.settings);
+    setOutputSource(request.draft);
+    setOutputContext(request.context);
+    setActiveDraftId(null);
+    setRetryAttempt(0);
+    setBackoff(null);
+    setVariants([]);
+    setVariantGroupId(null);
+    if (!followUp) setVersions([]);
+
+    const handlers: Parameters<typeof api.streamRefine>[1] = {
+      signal: controller.signal,
+      onChunk: (text) => {
+        if (abortRef.current !== controller) return;
+        setBackoff(null);
+        setOutput((current) => current + text);
+      },
+      onRetry: (attempt) => {
+        if (abortRef.current !== controller) return;
+        setOutput('');
+        setRetryAttempt(attempt);
+      },
+      onBackoff: (attempt, _delayMs, category) => {
+        if (abortRef.current !== controller) return;
+        setOutput('');
+        setBackoff({ attempt, category });
+      },
+    };
+
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-      const model = "gemini-3-flash-preview";
-      
-      const tonePrompt = {
-        authoritative: "Make it authoritative, decisive, and strategic. Focus on outcomes, clarity, and leadership. Perfect for high-stakes PM communication.",
-        professional: "Make it professional, clear, and business-appropriate. Focus on stakeholder alignment and clarity.",
-        casual: "Make it casual and friendly, like a message to a direct team or close collaborator. Use a warm, collaborative tone.",
-        fun: "Make it fun and full of personality! Use expressive language while remaining effective."
-      }[selectedTone];
-
-      const actionPrompt = {
-        rephrase: "Rephrase the following draft to improve flow and wording while keeping the core message identical.",
-        refine: "Refine the following draft to improve clarity, tone, and professional impact.",
-        improve: "Substantially improve the following draft by adding structure, better vocabulary, and strategic depth."
-      }[action];
-
-      const avoidPrompt = avoidWords.length > 0 
-        ? `CRITICAL: Do NOT use any of the following words or phrases in your response: ${avoidWords.join(', ')}.`
-        : '';
-
-      const prompt = `
-        You are SolDraft, a senior Product Management communications coach.
-        Your task is to ${action} the following email draft for a Product Manager.
-        
-        Context: The user is a Product Manager communicating with stakeholders, engineering teams, or leadership.
-        Tone Requirement: ${tonePrompt}
-        Action Requirement: ${actionPrompt}
-        ${avoidPrompt}
-        
-        CRITICAL: Keep the response CONCISE and to the point. Product Managers value brevity. Do not exceed the length of the original draft unless absolutely necessary for clarity.
-        
-        Original Draft:
-        """
-        ${input}
-        """
-        
-        Please provide only the ${action}d email text. Focus on PM-specific needs: clarity of requirements, alignment on goals, and decisive action. Do not include subject lines unless specifically asked. Do not include meta-commentary.
-      `;
-
-      const response = await ai.models.generateContent({
-        model,
-        contents: prompt,
-      });
+      const result = followUp
+        ? await api.streamFollowUp({
+            draftId: followUp.parent.id,
+            instruction: followUp.instruction,
+            edited: followUp.edited,
+            avoidWords: request.avoidWords,
+            maxRetries: request.maxRetries,
+            maxLengthRatio: request.maxLengthRatio,
+            settings: request.settings,
+          }, handlers)
+        : await api.streamRefine(request, handlers);
 
-      setOutput(response.text || 'No response generated.');
+      setOutput(result.text);
+      setStructured(result.draft.structured);
+      setActiveDraftId(result.draft.id);
+      setVersions((current) => {
+        if (!followUp) return [result.draft];
+        const parentIndex = current.findIndex((v) => v.id === followUp.parent.id);
+        return [...current.slice(0, parentIndex + 1), result.draft];
+      });
+      loadHistory(historyQuery);
     } catch (err) {
+      // A stopped run keeps its partial text; a superseded one is simply dropped.
+      if (controller.signal.aborted) return;
       console.error('Refinement error:', err);
-      setError('The sun went behind a cloud for a moment. Please try again!');
+      setOutput('');
+      setError(describeError(err));
+      if (err instanceof CategorizedError && isTransientError(err.category)) {
+        setRetryFailed(() => () => runRefine(request, followUp));
+      }
     } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+        setBackoff(null);
+      }
+    }
+  }, [historyQuery, loadHistory]);
+
+  // Streams several outputs side by side, either one per tone (starting at the selected one) or
+  // repeated samples of the selected tone. Shares the single abort controller with runRefine.
+  const runVariants = useCallback(async (action: RefineAction) => {
+    if (!input.trim()) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const groupId = crypto.randomUUID();
+    const start = Math.max(0, tones.findIndex((t) => t.id === selectedTone));
+    const planned: Variant[] = Array.from({ length: variantCount }, (_, i) => ({
+      key: `${groupId}-${i}`,
+      tone: variantMode === 'mixed' ? tones[(start + i) % tones.length].id : selectedTone,
+      text: '',
+      status: 'streaming',
+      draft: null,
+    }));
+
+    setVariants(planned);
+    setVariantGroupId(groupId);
+    setPinnedVariantKey(null);
+    setVersions([]);
+    setIsLoading(true);
+    setError(null);
+    setRetryFailed(null);
+    setOutput('');
+    setStructured(null);
+    setOutputSettings(settings);
+    setOutputSource(input);
+    setOutputContext(contextMessages);
+    setActiveDraftId(null);
+    setRetryAttempt(0);
+
+    const update = (key: string, patch: (variant: Variant) => Partial<Variant>) => {
+      setVariants((current) => current.map((v) => (v.key === key ? { ...v, ...patch(v) } : v)));
+    };
+
+    await Promise.all(planned.map(async (variant) => {
+      try {
+        const result = await api.streamRefine(
+          {
+            draft: input,
+            tone: variant.tone,
+            action,
+            avoidWords,
+            maxRetries,
+            maxLengthRatio,
+            format: outputFormat,
+            settings,
+            context: contextMessages,
+          },
+          {
+            signal: controller.signal,
+            onChunk: (text) => update(variant.key, (v) => ({ text: v.text + text })),
+            onRetry: () => update(variant.key, () => ({ text: '' })),
+            onBackoff: () => update(variant.key, () => ({ text: '' })),
+          },
+        );
+        update(variant.key, () => ({ text: result.text, status: 'done', draft: result.draft }));
+      } catch (err) {
+        if (controller.signal.aborted) {
+          update(variant.key, () => ({ status: 'stopped' }));
+          return;
+        }
+        console.error('Variant error:', err);
+        update(variant.key, () => ({ status: 'error', error: describeError(err) }));
+      }
+    }));
+
+    if (abortRef.current === controller) {
+      abortRef.current = null;
       setIsLoading(false);
     }
-  }, [input, selectedTone, avoidWords]);
+    loadHistory(historyQuery);
+  }, [
+    input, tones, selectedTone, variantCount, variantMode, avoidWords, maxRetries, maxLengthRatio, outputFormat, settings,
+    contextMessages, historyQuery, loadHistory,
+  ]);
+
+  const handleRefine = useCallback((action: RefineAction) => {
+    if (variantCount > 1) return runVariants(action);
+    return runRefine({
+      draft: input,
+      tone: selectedTone,
+      action,
+      avoidWords,
+      maxRetries,
+      maxLengthRatio,
+      format: outputFormat,
+      settings,
+      context: contextMessages,
+    });
+  }, [variantCount, runVariants, runRefine, input, selectedTone, avoidWords, maxRetries, maxLengthRatio, outputFormat, settings, contextMessages]);
+
+  const pinVariant = async (variant: Variant) => {
+    if (!variant.draft || !variantGroupId) return;
+    setPinnedVariantKey(variant.key);
+    setOutput(variant.text);
+    setStructured(variant.draft.structured);
+    setOutputSettings(variant.draft.settings);
+    setOutputSource(variant.draft.draft);
+    setOutputContext(variant.draft.context);
+    setActiveDraftId(variant.draft.id);
+    setVersions([variant.draft]);
+
+    const candidates = variants.flatMap((v) => (v.draft
+      ? [{ draftId: v.draft.id, tone: v.draft.tone, action: v.draft.action }]
+      : []));
+    if (candidates.length < 2) return;
+    try {
+      await api.recordVariantPick({ groupId: variantGroupId, candidates, pickedDraftId: variant.draft.id });
+      loadVariantStats();
+    } catch (err) {
+      console.error('Variant pick error:', err);
+    }
+  };
+
+  const continueFromVariant = (variant: Variant) => {
+    setInput(variant.text);
+    setSelectedTone(variant.tone);
+  };
+
+  const applyTemplate = (text: string, template: EmailTemplate) => {
+    setInput(text);
+    if (tones.some((t) => t.id === template.tone)) setSelectedTone(template.tone);
+    setIsTemplateLibraryOpen(false);
+  };
+
+  const restoreDraft = (draft: DraftRecord) => {
+    setInput(draft.draft);
+    setSelectedTone(tones.some((t) => t.id === draft.tone) ? draft.tone : DEFAULT_TONE_ID);
+    setAvoidWords(draft.avoidWords);
+    setContextText(draft.context.length > 0 ? formatThread(draft.context) : '');
+  };
+
+  const showVersion = (draft: DraftRecord) => {
+    setOutput(draft.output);
+    setStructured(draft.structured);
+    setOutputSettings(draft.settings);
+    setOutputSource(draft.draft);
+    setOutputContext(draft.context);
+    setError(null);
+    setActiveDraftId(draft.id);
+  };
+
+  const openDraft = (draft: DraftRecord) => {
+    restoreDraft(draft);
+    showVersion(draft);
+    setVersions([draft]);
+    if (draft.parentId !== null) {
+      api.fetchThread(draft.id)
+        .then(setVersions)
+        .catch((err) => console.error('History error:', err));
+    }
+  };
+
+  const sendFollowUp = (instruction: string) => {
+    const parent = versions.find((v) => v.id === activeDraftId);
+    if (!parent) return;
+    // Structured-field edits and a merged diff only live in the view until a follow-up carries them along.
+    const isEdited = output !== parent.output || JSON.stringify(structured) !== JSON.stringify(parent.structured);
+    const edited = isEdited ? { output, structured } : undefined;
+    runRefine({
+      draft: parent.draft,
+      tone: parent.tone,
+      action: parent.action,
+      avoidWords,
+      maxRetries,
+      maxLengthRatio,
+      format: (edited ?? parent).structured ? 'structured' : 'text',
+      settings,
+      context: parent.context,
+    }, { parent, instruction, edited });
+  };
+
+  const rerunDraft = (draft: DraftRecord) => {
+    restoreDraft(draft);
+    runRefine({
+      draft: draft.draft,
+      tone: draft.tone,
+      action: draft.action,
+      avoidWords: draft.avoidWords,
+      maxRetries,
+      maxLengthRatio,
+      format: draft.structured ? 'structured' : 'text',
+      context: draft.context,
+      // Re-runs reproduce the original model and sampling parameters.
+      settings: draft.settings,
+    });
+  };
+
+  const removeDraft = async (draft: DraftRecord) => {
+    try {
+      await api.deleteDraft(draft.id);
+      setHistory((drafts) => drafts.filter((d) => d.id !== draft.id));
+      if (activeDraftId === draft.id) setActiveDraftId(null);
+    } catch (err) {
+      console.error('History error:', err);
+    }
+  };
+
+  // Variant runs stream into the grid; the output panel only streams single runs.
+  const isStreamingOutput = isLoading && variants.length === 0;
+
+  // Checked against the current guardrails, so edits to the avoid-list re-flag the visible output.
+  const guardrailReport = useMemo(
+    () => (output && !isStreamingOutput
+      ? checkGuardrails(output, outputSource, avoidWords, structured?.body, maxLengthRatio)
+      : null),
+    [output, outputSource, avoidWords, structured, maxLengthRatio, isStreamingOutput],
+  );
+
+  // Questions from the replied-to thread that the visible output does not seem to answer
+  const threadQuestions = useMemo(() => findQuestions(outputContext), [outputContext]);
+  const unansweredQuestions = useMemo(
+    () => (output && !isStreamingOutput ? findUnansweredQuestions(threadQuestions, output) : []),
+    [threadQuestions, output, isStreamingOutput],
+  );
+
+  // Local readability and tone analysis: live for the draft being typed, before/after once there is an output.
+  const deferredInput = useDeferredValue(input);
+  const inputAnalysis = useMemo(() => analyzeText(deferredInput), [deferredInput]);
+  const sourceAnalysis = useMemo(() => analyzeText(outputSource), [outputSource]);
+  const outputAnalysis = useMemo(
+    () => (output && !isStreamingOutput ? analyzeText(markdownToPlainText(structured?.body ?? output)) : null),
+    [output, structured, isStreamingOutput],
+  );
+
+  const highlightPlugins = useMemo<MarkdownOptions['rehypePlugins']>(() => [
+    [rehypeHighlightMatches, {
+      findMatches: (text: string) => findAvoidWordMatches(text, avoidWords),
+      className: 'bg-orange-200/70 text-orange-900 rounded px-1 underline decoration-wavy decoration-orange-500',
+    }],
+  ], [avoidWords]);
+
+  const editStructured = (email: StructuredEmail) => {
+    setStructured(email);
+    setOutput(renderStructuredEmail(email));
+  };
+
+  // Exports carry the subject separately, so a structured email's body omits its subject line.
+  const exportBody = structured ? renderStructuredBody(structured) : output;
+
+  const copyToClipboard = async () => {
+    try {
+      await copyRichText(exportBody);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Clipboard error:', err);
+    }
+  };
+
+  const changeShortcuts = (bindings: ShortcutBindings) => {
+    setShortcutBindings(bindings);
+    saveBindings(bindings);
+  };
+
+  const cycleTone = (step: number) => {
+    const index = tones.findIndex((t) => t.id === selectedTone);
+    setSelectedTone(tones[(index + step + tones.length) % tones.length].id);
+  };
+
+  const focusInput = (input: HTMLInputElement | null) => {
+    input?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    input?.focus({ preventScroll: true });
+  };
 
-  const copyToClipboard = () => {
-    navigator.clipboard.writeText(output);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+  const shortcutActions: Record<ShortcutId, () => void> = {
+    refine: () => handleRefine('refine'),
+    improve: () => handleRefine('improve'),
+    rephrase: () => handleRefine('rephrase'),
+    stop: stopRefine,
+    nextTone: () => cycleTone(1),
+    previousTone: () => cycleTone(-1),
+    copyOutput: () => output && copyToClipboard(),
+    openHistory: () => focusInput(historySearchRef.current),
+    commandPalette: () => setIsPaletteOpen(true),
+    showShortcuts: () => setIsShortcutsOpen(true),
   };
 
+  // The key listener is only rebound when the bindings change, so it reads the latest actions from here.
+  const shortcutActionsRef = useRef(shortcutActions);
+  useEffect(() => {
+    shortcutActionsRef.current = shortcutActions;
+  });
+
+  // Dialogs own the keyboard while they are open.
+  const isDialogOpen = isSettingsOpen || isToneEditorOpen || isTemplateLibraryOpen || isUsageOpen
+    || isPaletteOpen || isShortcutsOpen;
+
+  useEffect(() => {
+    if (isDialogOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const combo = comboFromEvent(e);
+      const id = combo && findShortcut(shortcutBindings, combo);
+      if (!id) return;
+      const target = e.target as HTMLElement | null;
+      const isTyping = !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+      if (isTyping && !worksWhileTyping(combo)) return;
+      e.preventDefault();
+      shortcutActionsRef.current[id]();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isDialogOpen, shortcutBindings]);
+
+  // Built when the palette opens: every action, tone, preset, avoid word and recent draft.
+  const paletteCommands = (): Command[] => [
+    ...(['refine', 'improve', 'rephrase'] as const).map((action): Command => ({
+      id: `action-${action}`,
+      group: 'Actions',
+      label: `${action[0].toUpperCase()}${action.slice(1)} draft`,
+      combo: shortcutBindings[action],
+      disabled: !input.trim(),
+      run: () => handleRefine(action),
+    })),
+    { id: 'stop', group: 'Actions', label: 'Stop generating', combo: shortcutBindings.stop, disabled: !isLoading, run: stopRefine },
+    { id: 'copy', group: 'Actions', label: 'Copy output', combo: shortcutBindings.copyOutput, disabled: !output, run: copyToClipboard },
+    {
+      id: 'history',
+      group: 'Actions',
+      label: 'Search history',
+      combo: shortcutBindings.openHistory,
+      run: () => focusInput(historySearchRef.current),
+    },
+    { id: 'templates', group: 'Actions', label: 'Open template library', run: () => setIsTemplateLibraryOpen(true) },
+    { id: 'manage-tones', group: 'Actions', label: 'Manage tones', run: () => setIsToneEditorOpen(true) },
+    { id: 'settings', group: 'Actions', label: 'Model settings', run: () => setIsSettingsOpen(true) },
+    { id: 'usage', group: 'Actions', label: 'Usage and cost', run: () => setIsUsageOpen(true) },
+    {
+      id: 'shortcuts',
+      group: 'Actions',
+      label: 'Keyboard shortcuts',
+      combo: shortcutBindings.showShortcuts,
+      run: () => setIsShortcutsOpen(true),
+    },
+    ...tones.map((tone): Command => ({
+      id: `tone-${tone.id}`,
+      group: 'Tones',
+      label: `Use ${tone.label} tone`,
+      detail: tone.id === selectedTone ? 'current' : undefined,
+      run: () => setSelectedTone(tone.id),
+    })),
+    ...presets.map((preset): Command => ({
+      id: `preset-${preset.id}`,
+      group: 'Presets',
+      label: `Apply ${preset.name}`,
+      detail: preset.id === activePresetId ? 'active' : undefined,
+      run: () => applyPreset(preset),
+    })),
+    { id: 'avoid-add', group: 'Avoid Words', label: 'Add avoid word', run: () => focusInput(avoidWordInputRef.current) },
+    ...avoidWords.map((word): Command => ({
+      id: `avoid-${word}`,
+      group: 'Avoid Words',
+      label: `Remove “${word}”`,
+      run: () => removeAvoidWord(word),
+    })),
+    ...history.map((draft): Command => ({
+      id: `draft-${draft.id}`,
+      group: 'Recent Drafts',
+      label: draft.draft.replace(/\s+/g, ' ').slice(0, 80),
+      detail: `${draft.action} · ${new Date(draft.createdAt).toLocaleDateString()}`,
+      run: () => openDraft(draft),
+    })),
+  ];
+
   return (
     <div className="min-h-screen bg-white text-slate-800 font-sans selection:bg-amber-200 relative overflow-x-hidden">
       {/* Sunny Background Accents */}
@@ -234,16 +807,42 @@ export default function App() {
               </div>
             </div>
           </div>
-          <div className="hidden xl:flex items-center gap-8">
-            <div className="flex items-center gap-3 text-xs font-bold text-slate-400 uppercase tracking-[0.2em]">
-              <Users className="w-4 h-4 text-amber-500" />
-              Stakeholder_Ready
-            </div>
-            <div className="h-8 w-px bg-amber-100" />
-            <div className="flex items-center gap-3 text-xs font-bold text-slate-400 uppercase tracking-[0.2em]">
-              <ShieldCheck className="w-4 h-4 text-emerald-500" />
-              Privacy_Secured
+          <div className="flex items-center gap-8">
+            <div className="hidden xl:flex items-center gap-8">
+              <div className="flex items-center gap-3 text-xs font-bold text-slate-400 uppercase tracking-[0.2em]">
+                <Users className="w-4 h-4 text-amber-500" />
+                Stakeholder_Ready
+              </div>
+              <div className="h-8 w-px bg-amber-100" />
+              <div className="flex items-center gap-3 text-xs font-bold text-slate-400 uppercase tracking-[0.2em]">
+                <ShieldCheck className="w-4 h-4 text-emerald-500" />
+                Privacy_Secured
+              </div>
             </div>
+            <button
+              onClick={() => setIsPaletteOpen(true)}
+              title={`Command palette (${formatCombo(shortcutBindings.commandPalette)})`}
+              className="flex items-center gap-3 px-5 py-3 bg-white border border-amber-100 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:text-amber-700 hover:border-amber-300 shadow-sm transition-all"
+            >
+              <CommandIcon className="w-4 h-4 text-amber-500" />
+              {formatCombo(shortcutBindings.commandPalette)}
+            </button>
+            <button
+              onClick={() => setIsUsageOpen(true)}
+              title="Usage and cost"
+              className="flex items-center gap-3 px-5 py-3 bg-white border border-amber-100 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:text-amber-700 hover:border-amber-300 shadow-sm transition-all"
+            >
+              <BarChart3 className="w-4 h-4 text-amber-500" />
+              Usage
+            </button>
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              title={describeSettings(settings)}
+              className="flex items-center gap-3 px-5 py-3 bg-white border border-amber-100 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:text-amber-700 hover:border-amber-300 shadow-sm transition-all"
+            >
+              <SlidersHorizontal className="w-4 h-4 text-amber-500" />
+              {settings.model || 'Model'}
+            </button>
           </div>
         </header>
 
@@ -256,23 +855,38 @@ export default function App() {
                 <div className="flex items-center gap-3">
                   <div className="w-2.5 h-2.5 bg-amber-400 rounded-full shadow-[0_0_10px_rgba(251,191,36,0.5)]" />
                   <span className="text-xs font-black uppercase tracking-[0.2em] text-amber-600/60">Drafting_Core</span>
+                  <button
+                    onClick={() => setIsTemplateLibraryOpen(true)}
+                    className="ml-2 flex items-center gap-2 px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-amber-700 hover:bg-amber-50 transition-all"
+                  >
+                    <LayoutTemplate className="w-4 h-4" />
+                    Templates
+                  </button>
                 </div>
                 <div className="flex flex-wrap gap-2 bg-white/80 p-1.5 rounded-2xl border border-amber-100 shadow-sm">
-                  {TONES.map((tone) => (
+                  {tones.map((tone) => (
                     <button
                       key={tone.id}
                       onClick={() => setSelectedTone(tone.id)}
+                      title={tone.description}
                       className={cn(
                         "px-5 py-2.5 rounded-xl text-xs font-bold transition-all flex items-center gap-2",
                         selectedTone === tone.id 
-                          ? tone.activeClass 
+                          ? TONE_ACTIVE_CLASSES[tone.color] 
                           : "text-slate-400 hover:text-slate-600 hover:bg-slate-50"
                       )}
                     >
-                      {tone.icon}
+                      <ToneIconView icon={tone.icon} />
                       {tone.label}
                     </button>
                   ))}
+                  <button
+                    onClick={() => setIsToneEditorOpen(true)}
+                    title="Manage tones"
+                    className="px-3 py-2.5 rounded-xl text-slate-400 hover:text-amber-700 hover:bg-amber-50 transition-all"
+                  >
+                    <Palette className="w-4 h-4" />
+                  </button>
                 </div>
               </div>
               
@@ -283,18 +897,84 @@ export default function App() {
                   placeholder="Paste your PRD update, stakeholder mail, or team announcement here..."
                   className="w-full h-80 p-8 bg-amber-50/10 border border-amber-50 rounded-[2rem] focus:ring-[12px] focus:ring-amber-500/5 focus:border-amber-400/50 outline-none resize-none text-slate-800 placeholder:text-slate-300 transition-all leading-relaxed text-2xl font-semibold"
                 />
+
+                <ThreadContextInput value={contextText} messages={contextMessages} onChange={setContextText} />
                 
-                <div className="mt-10 flex flex-col sm:flex-row items-center justify-between gap-6">
+                <div className="mt-10 flex flex-wrap items-center gap-3">
+                  <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                    <Layers className="w-4 h-4 text-amber-500" />
+                    Variants
+                  </div>
+                  <div className="flex gap-1 bg-white/80 p-1 rounded-2xl border border-amber-100">
+                    {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map((count) => (
+                      <button
+                        key={count}
+                        onClick={() => setVariantCount(count)}
+                        className={cn(
+                          "px-3 py-1.5 rounded-xl text-xs font-black transition-all",
+                          variantCount === count ? "bg-slate-900 text-white" : "text-slate-400 hover:text-slate-700"
+                        )}
+                      >
+                        ×{count}
+                      </button>
+                    ))}
+                  </div>
+                  {variantCount > 1 && (
+                    <div className="flex gap-1 bg-white/80 p-1 rounded-2xl border border-amber-100">
+                      {([['mixed', 'One Per Tone'], ['same', 'Same Tone']] as const).map(([mode, label]) => (
+                        <button
+                          key={mode}
+                          onClick={() => setVariantMode(mode)}
+                          className={cn(
+                            "px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all",
+                            variantMode === mode ? "bg-amber-500 text-white" : "text-slate-400 hover:text-slate-700"
+                          )}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 sm:ml-auto">
+                    <Braces className="w-4 h-4 text-amber-500" />
+                    Format
+                  </div>
+                  <div className="flex gap-1 bg-white/80 p-1 rounded-2xl border border-amber-100">
+                    {([['text', 'Free Text'], ['structured', 'Structured']] as const).map(([format, label]) => (
+                      <button
+                        key={format}
+                        onClick={() => setOutputFormat(format)}
+                        title={format === 'structured' ? 'Subject, TL;DR, body and action items' : undefined}
+                        className={cn(
+                          "px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all",
+                          outputFormat === format ? "bg-slate-900 text-white" : "text-slate-400 hover:text-slate-700"
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="mt-6 flex flex-col sm:flex-row items-center justify-between gap-6">
                   <div className="flex items-center gap-3 text-xs font-bold text-slate-400 uppercase tracking-widest">
                     <Zap className="w-5 h-5 text-amber-500" />
-                    <span>Impact_Analysis_Active</span>
+                    {inputAnalysis.words > 0 ? (
+                      <span>
+                        {inputAnalysis.words} words · {readingEaseLabel(inputAnalysis.readingEase)}
+                        {inputAnalysis.hedges.length > 0 && ` · ${inputAnalysis.hedges.length} hedges`}
+                      </span>
+                    ) : (
+                      <span>Impact_Analysis_Ready</span>
+                    )}
                   </div>
                   <div className="flex flex-wrap gap-3 w-full sm:w-auto">
                     {(['rephrase', 'refine', 'improve'] as const).map((action) => (
                       <button
                         key={action}
                         onClick={() => handleRefine(action)}
-                        disabled={isLoading || !input.trim()}
+                        disabled={!input.trim()}
+                        title={formatCombo(shortcutBindings[action])}
                         className={cn(
                           "flex-1 sm:flex-none flex items-center justify-center gap-2 px-6 py-4 rounded-2xl font-black uppercase tracking-widest transition-all active:scale-95 group",
                           action === 'rephrase' ? "bg-slate-100 text-slate-900 hover:bg-slate-200" :
@@ -315,9 +995,45 @@ export default function App() {
               </div>
             </section>
 
+            {/* Variant Section */}
+            <AnimatePresence>
+              {variants.length > 0 && (
+                <motion.section
+                  initial={{ opacity: 0, y: 40 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: 40 }}
+                  className="bg-white border-4 border-amber-100 rounded-[3rem] overflow-hidden shadow-[0_32px_64px_-12px_rgba(251,191,36,0.15)]"
+                >
+                  <div className="px-10 py-6 border-b border-amber-100 flex items-center justify-between bg-amber-50/30">
+                    <div className="flex items-center gap-3">
+                      <div className="w-3 h-3 bg-amber-400 rounded-full shadow-[0_0_15px_rgba(251,191,36,0.6)]" />
+                      <span className="text-xs font-black uppercase tracking-[0.2em] text-slate-400">Variant_Lab</span>
+                    </div>
+                    {isLoading && (
+                      <button
+                        onClick={stopRefine}
+                        className="flex items-center gap-2 text-xs font-black text-slate-700 bg-slate-100 hover:bg-slate-200 px-6 py-3 rounded-2xl transition-all border border-slate-200 shadow-sm"
+                      >
+                        <Square className="w-4 h-4 fill-current" /> Stop
+                      </button>
+                    )}
+                  </div>
+                  <div className="p-10">
+                    <VariantGrid
+                      variants={variants}
+                      tones={tones}
+                      pinnedKey={pinnedVariantKey}
+                      onPin={pinVariant}
+                      onContinue={continueFromVariant}
+                    />
+                  </div>
+                </motion.section>
+              )}
+            </AnimatePresence>
+
             {/* Output Section */}
             <AnimatePresence mode="wait">
-              {(output || isLoading) && (
+              {(output || isStreamingOutput || error) && (
                 <motion.section
                   initial={{ opacity: 0, y: 40 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -328,24 +1044,64 @@ export default function App() {
                     <div className="flex items-center gap-3">
                       <div className="w-3 h-3 bg-emerald-400 rounded-full shadow-[0_0_15px_rgba(52,211,153,0.6)]" />
                       <span className="text-xs font-black uppercase tracking-[0.2em] text-slate-400">Optimized_Communication</span>
+                      {outputSettings && (
+                        <span className="text-[10px] font-bold text-slate-400 bg-white px-3 py-1 rounded-full border border-amber-100">
+                          {describeSettings(outputSettings)}
+                        </span>
+                      )}
                     </div>
-                    {output && !isLoading && (
+                    {isStreamingOutput && (
                       <button
-                        onClick={copyToClipboard}
-                        className="flex items-center gap-2 text-xs font-black text-amber-700 bg-amber-100 hover:bg-amber-200 px-6 py-3 rounded-2xl transition-all border border-amber-200 shadow-sm"
+                        onClick={stopRefine}
+                        className="flex items-center gap-2 text-xs font-black text-slate-700 bg-slate-100 hover:bg-slate-200 px-6 py-3 rounded-2xl transition-all border border-slate-200 shadow-sm"
                       >
-                        {copied ? (
-                          <><Check className="w-5 h-5 text-emerald-600" /> Copied!</>
-                        ) : (
-                          <><Copy className="w-5 h-5" /> Copy Result</>
-                        )}
+                        <Square className="w-4 h-4 fill-current" /> Stop
                       </button>
                     )}
+                    {output && !isStreamingOutput && (
+                      <div className="flex items-center gap-3">
+                        <div className="flex gap-1 bg-white/80 p-1 rounded-2xl border border-amber-100">
+                          {([
+                            ['result', FileText, 'Result'],
+                            ['diff', GitCompare, 'Diff'],
+                          ] as const).map(([mode, Icon, label]) => (
+                            <button
+                              key={mode}
+                              onClick={() => setViewMode(mode)}
+                              className={cn(
+                                "flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-black transition-all",
+                                viewMode === mode ? "bg-slate-900 text-white" : "text-slate-400 hover:text-slate-700"
+                              )}
+                            >
+                              <Icon className="w-4 h-4" />
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                        <button
+                          onClick={copyToClipboard}
+                          className="flex items-center gap-2 text-xs font-black text-amber-700 bg-amber-100 hover:bg-amber-200 px-6 py-3 rounded-2xl transition-all border border-amber-200 shadow-sm"
+                        >
+                          {copied ? (
+                            <><Check className="w-5 h-5 text-emerald-600" /> Copied!</>
+                          ) : (
+                            <><Copy className="w-5 h-5" /> Copy Result</>
+                          )}
+                        </button>
+                        <ExportMenu defaultSubject={structured?.subject ?? ''} body={exportBody} />
+                      </div>
+                    )}
                   </div>
                   
                   <div className="p-12 min-h-[300px] bg-gradient-to-b from-transparent to-amber-50/10">
-                    {isLoading ? (
+                    {isStreamingOutput && !output ? (
                       <div className="space-y-6">
+                        {backoff && (
+                          <div className="flex items-center gap-3 text-xs font-black uppercase tracking-widest text-orange-600">
+                            <RefreshCw className="w-4 h-4 animate-spin" />
+                            {ERROR_LABELS[backoff.category]} · retrying, attempt {backoff.attempt + 1}
+                          </div>
+                        )}
                         <div className="h-6 bg-slate-100 rounded-full w-3/4 animate-pulse" />
                         <div className="h-6 bg-slate-100 rounded-full w-full animate-pulse" />
                         <div className="h-6 bg-slate-100 rounded-full w-5/6 animate-pulse" />
@@ -353,15 +1109,63 @@ export default function App() {
                       </div>
                     ) : error ? (
                       <div className="flex items-center gap-4 text-orange-600 bg-orange-50 p-8 rounded-[2rem] border-2 border-orange-100">
-                        <AlertCircle className="w-8 h-8" />
-                        <span className="font-black text-lg">{error}</span>
+                        <AlertCircle className="w-8 h-8 shrink-0" />
+                        <span className="font-black text-lg flex-1">{error}</span>
+                        {retryFailed && (
+                          <button
+                            onClick={retryFailed}
+                            className="flex items-center gap-2 px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest bg-white border border-orange-200 hover:bg-orange-100 transition-all"
+                          >
+                            <RefreshCw className="w-4 h-4" />
+                            Try Again
+                          </button>
+                        )}
                       </div>
+                    ) : viewMode === 'diff' && !isStreamingOutput ? (
+                      <DiffView
+                        original={outputSource}
+                        revised={output}
+                        onApply={(merged) => {
+                          setOutput(merged);
+                          setStructured(null);
+                          setViewMode('result');
+                        }}
+                      />
                     ) : (
-                      <div className="prose prose-slate max-w-none text-slate-800 text-2xl leading-relaxed font-bold">
-                        <Markdown>{output}</Markdown>
+                      <div className="space-y-8">
+                        {retryAttempt > 0 && isStreamingOutput && (
+                          <div className="flex items-center gap-3 text-xs font-black uppercase tracking-widest text-amber-700">
+                            <RefreshCw className="w-4 h-4 animate-spin" />
+                            Fixing guardrail violations · retry {retryAttempt}/{maxRetries}
+                          </div>
+                        )}
+                        {guardrailReport && <GuardrailReportBar report={guardrailReport} />}
+                        {threadQuestions.length > 0 && !isStreamingOutput && (
+                          <OpenQuestionsBar questions={threadQuestions} unanswered={unansweredQuestions} />
+                        )}
+                        {structured ? (
+                          <StructuredEmailEditor email={structured} onChange={editStructured} />
+                        ) : (
+                          <div className="prose prose-slate max-w-none text-slate-800 text-2xl leading-relaxed font-bold">
+                            <Markdown rehypePlugins={highlightPlugins}>{output}</Markdown>
+                            {isStreamingOutput && (
+                              <span className="inline-block w-3 h-7 bg-amber-400 rounded-sm animate-pulse align-middle" />
+                            )}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
+
+                  {versions.length > 0 && (
+                    <FollowUpPanel
+                      versions={versions}
+                      activeId={activeDraftId}
+                      isLoading={isLoading}
+                      onSelect={showVersion}
+                      onSubmit={sendFollowUp}
+                    />
+                  )}
                 </motion.section>
               )}
             </AnimatePresence>
@@ -376,10 +1180,22 @@ export default function App() {
               </h3>
               
               <div className="space-y-8">
+                <GuardrailPresetBar
+                  presets={presets}
+                  activeId={activePresetId}
+                  isModified={isPresetModified}
+                  onSelect={applyPreset}
+                  onSaveAs={savePresetAs}
+                  onUpdate={updateActivePreset}
+                  onDelete={deleteActivePreset}
+                  onImport={importPresets}
+                />
+
                 <div className="flex flex-col gap-3">
                   <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Avoid Keywords</label>
                   <div className="flex gap-2">
                     <input
+                      ref={avoidWordInputRef}
                       type="text"
                       value={newAvoidWord}
                       onChange={(e) => setNewAvoidWord(e.target.value)}
@@ -422,9 +1238,61 @@ export default function App() {
                     </div>
                   )}
                 </div>
+
+                <div className="flex flex-col gap-3">
+                  <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Length Limit · × Draft Words</label>
+                  <div className="flex gap-2 bg-amber-50/50 p-1.5 rounded-2xl border border-amber-100">
+                    {[...new Set([...LENGTH_RATIO_OPTIONS, maxLengthRatio])].sort((a, b) => a - b).map((ratio) => (
+                      <button
+                        key={ratio}
+                        onClick={() => setMaxLengthRatio(ratio)}
+                        className={cn(
+                          "flex-1 py-2.5 rounded-xl text-xs font-black transition-all",
+                          maxLengthRatio === ratio ? "bg-slate-900 text-white shadow-lg" : "text-slate-400 hover:text-slate-700"
+                        )}
+                      >
+                        {ratio}×
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-col gap-3">
+                  <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Auto-Retry On Violations</label>
+                  <div className="flex gap-2 bg-amber-50/50 p-1.5 rounded-2xl border border-amber-100">
+                    {Array.from({ length: MAX_GUARDRAIL_RETRIES + 1 }, (_, n) => (
+                      <button
+                        key={n}
+                        onClick={() => setMaxRetries(n)}
+                        className={cn(
+                          "flex-1 py-2.5 rounded-xl text-xs font-black transition-all",
+                          maxRetries === n ? "bg-slate-900 text-white shadow-lg" : "text-slate-400 hover:text-slate-700"
+                        )}
+                      >
+                        {n === 0 ? 'Off' : `${n}×`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </div>
             </div>
 
+            <AnalyticsPanel draft={outputAnalysis ? sourceAnalysis : inputAnalysis} output={outputAnalysis} />
+
+            <VariantStatsPanel stats={variantStats} tones={tones} />
+
+            <HistoryPanel
+              drafts={history}
+              tones={tones}
+              query={historyQuery}
+              activeId={activeDraftId}
+              onQueryChange={setHistoryQuery}
+              onOpen={openDraft}
+              onRerun={rerunDraft}
+              onDelete={removeDraft}
+              searchInputRef={historySearchRef}
+            />
+
             <div className="bg-gradient-to-br from-amber-400 to-orange-500 rounded-[2.5rem] p-10 text-white shadow-2xl shadow-orange-200/40 relative overflow-hidden group">
               <div className="absolute top-0 right-0 w-40 h-40 bg-white/10 rounded-full blur-3xl -mr-20 -mt-20 group-hover:scale-150 transition-transform duration-1000" />
               <h4 className="text-xs font-black uppercase tracking-[0.3em] mb-6 opacity-80 flex items-center gap-3">
@@ -456,6 +1324,56 @@ export default function App() {
           </div>
         </footer>
       </main>
+
+      <AnimatePresence>
+        {isSettingsOpen && (
+          <SettingsPanel
+            settings={settings}
+            catalog={modelCatalog}
+            onClose={() => setIsSettingsOpen(false)}
+            onSave={saveSettings}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isToneEditorOpen && (
+          <ToneEditor
+            tones={tones}
+            onClose={() => setIsToneEditorOpen(false)}
+            onSave={saveTone}
+            onDelete={removeTone}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isTemplateLibraryOpen && (
+          <TemplateLibrary
+            tones={tones}
+            onClose={() => setIsTemplateLibraryOpen(false)}
+            onUse={applyTemplate}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isUsageOpen && <UsageDashboard catalog={modelCatalog} onClose={() => setIsUsageOpen(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isPaletteOpen && <CommandPalette commands={paletteCommands()} onClose={() => setIsPaletteOpen(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isShortcutsOpen && (
+          <ShortcutsHelp
+            bindings={shortcutBindings}
+            onChange={changeShortcuts}
+            onClose={() => setIsShortcutsOpen(false)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { countWords, findAvoidWordMatches, type GuardrailMatch } from './guardrails.ts';
+
+// Local, heuristic readability and tone checks; cheap enough to run on every keystroke.
+
+export const READING_WORDS_PER_MINUTE = 230;
+
+export const HEDGING_PHRASES = [
+  'just',
+  'sorry',
+  'maybe',
+  'perhaps',
+  'possibly',
+  'hopefully',
+  'actually',
+  'basically',
+  'kind of',
+  'sort of',
+  'a bit',
+  'I think',
+  'I feel',
+  'I believe',
+  'I guess',
+  'I was wondering',
+  'if that makes sense',
+  'does that make sense',
+  'not sure',
+  'might be',
+  'could be',
+];
+
+export interface TextAnalysis {
+  words: number;
+  sentences: number;
+  // Flesch reading ease: roughly 0 (very hard) to 100 (very easy).
+  readingEase: number;
+  readingTimeSeconds: number;
+  hedges: GuardrailMatch[];
+  passiveVoice: GuardrailMatch[];
+}
+
+const SENTENCE_PATTERN = /[^.!?\n]*[\p{L}\p{N}][^.!?\n]*(?:[.!?]+|\n|$)/gu;
+const WORD_PATTERN = /[\p{L}']+/gu;
+const IRREGULAR_PARTICIPLES = new Set([
+  'been', 'begun', 'bought', 'brought', 'built', 'caught', 'chosen', 'done', 'drawn', 'driven', 'found', 'given',
+  'gone', 'got', 'gotten', 'heard', 'held', 'hidden', 'kept', 'known', 'led', 'left', 'lost', 'made', 'meant',
+  'met', 'paid', 'put', 'read', 'run', 'said', 'seen', 'sent', 'set', 'shown', 'sold', 'spent', 'taken', 'taught',
+  'told', 'thought', 'understood', 'won', 'written',
+]);
+// A form of "to be", an optional adverb, then a past participle: "was approved", "is being quickly reviewed".
+const PASSIVE_PATTERN = /\b(?:am|is|are|was|were|be|been|being)\s+(?:(?:being|not|\w+ly)\s+)?([a-z]+)\b/giu;
+
+export function countSentences(text: string): number {
+  return text.match(SENTENCE_PATTERN)?.length ?? 0;
+}
+
+/** Vowel-group count with the usual silent-e correction; good enough for a readability estimate. */
+export function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length <= 3) return 1;
+  const trimmed = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+}
+
+export function findPassiveVoice(text: string): GuardrailMatch[] {
+  const matches: GuardrailMatch[] = [];
+  for (const match of text.matchAll(PASSIVE_PATTERN)) {
+    const participle = match[1].toLowerCase();
+    if (participle.endsWith('ed') || IRREGULAR_PARTICIPLES.has(participle)) {
+      matches.push({ word: match[0], start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return matches;
+}
+
+export function analyzeText(text: string): TextAnalysis {
+  const words = countWords(text);
+  const sentences = countSentences(text);
+  const letterWords: string[] = text.match(WORD_PATTERN) ?? [];
+  const syllables = letterWords.reduce((sum, word) => sum + countSyllables(word), 0);
+
+  const readingEase = words === 0 || letterWords.length === 0
+    ? 0
+    : 206.835 - 1.015 * (words / Math.max(sentences, 1)) - 84.6 * (syllables / letterWords.length);
+
+  return {
+    words,
+    sentences,
+    readingEase: Math.round(Math.min(100, Math.max(0, readingEase))),
+    readingTimeSeconds: Math.ceil((words / READING_WORDS_PER_MINUTE) * 60),
+    hedges: findAvoidWordMatches(text, HEDGING_PHRASES),
+    passiveVoice: findPassiveVoice(text),
+  };
+}
+
+/** Plain-English band for a Flesch reading-ease score. */
+export function readingEaseLabel(score: number): string {
+  if (score >= 80) return 'Very easy';
+  if (score >= 60) return 'Plain English';
+  if (score >= 50) return 'Fairly hard';
+  if (score >= 30) return 'Hard';
+  return 'Very hard';
+}
+
+export function formatReadingTime(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest ? `${minutes}m ${rest}s` : `${minutes}m`;
+}
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Activity } from 'lucide-react';
+import { formatReadingTime, readingEaseLabel, type TextAnalysis } from '../analytics.ts';
+import { cn } from '../lib/utils.ts';
+
+interface AnalyticsPanelProps {
+  draft: TextAnalysis;
+  output: TextAnalysis | null;
+}
+
+interface Metric {
+  label: string;
+  value: (analysis: TextAnalysis) => number;
+  format?: (value: number) => string;
+  // Whether a rise from draft to output is an improvement.
+  higherIsBetter: boolean;
+}
+
+const METRICS: Metric[] = [
+  { label: 'Readability', value: (a) => a.readingEase, higherIsBetter: true },
+  { label: 'Words', value: (a) => a.words, higherIsBetter: false },
+  { label: 'Sentences', value: (a) => a.sentences, higherIsBetter: false },
+  { label: 'Read Time', value: (a) => a.readingTimeSeconds, format: formatReadingTime, higherIsBetter: false },
+  { label: 'Hedges', value: (a) => a.hedges.length, higherIsBetter: false },
+  { label: 'Passive', value: (a) => a.passiveVoice.length, higherIsBetter: false },
+];
+
+function Findings({ title, items }: { title: string; items: string[] }) {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(item, (counts.get(item) ?? 0) + 1);
+  }
+  if (counts.size === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">{title}</span>
+      <div className="flex flex-wrap gap-2">
+        {[...counts].map(([item, count]) => (
+          <span key={item} className="px-3 py-1 bg-amber-50 border border-amber-100 rounded-xl text-xs font-bold text-amber-700">
+            {item}{count > 1 ? ` ×${count}` : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function AnalyticsPanel({ draft, output }: AnalyticsPanelProps) {
+  if (draft.words === 0 && !output) return null;
+  const latest = output ?? draft;
+
+  return (
+    <div className="bg-white border border-amber-100 rounded-[2.5rem] p-10 shadow-2xl shadow-amber-200/10">
+      <h3 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400 mb-8 flex items-center gap-3">
+        <Activity className="w-6 h-6 text-amber-500" />
+        Impact_Analysis
+      </h3>
+
+      <div className="space-y-8">
+        <table className="w-full text-xs font-bold text-slate-600">
+          <thead>
+            <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <th className="text-left pb-3 font-black" />
+              <th className="text-right pb-3 font-black">Draft</th>
+              {output && <th className="text-right pb-3 font-black">Output</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {METRICS.map((metric) => {
+              const before = metric.value(draft);
+              const after = output && metric.value(output);
+              const format = metric.format ?? String;
+              const improved = after !== null && (metric.higherIsBetter ? after > before : after < before);
+              const worsened = after !== null && (metric.higherIsBetter ? after < before : after > before);
+              return (
+                <tr key={metric.label} className="border-t border-amber-50">
+                  <td className="py-2.5 text-[10px] font-black uppercase tracking-widest text-slate-400">{metric.label}</td>
+                  <td className="py-2.5 text-right">{format(before)}</td>
+                  {after !== null && (
+                    <td className={cn(
+                      "py-2.5 text-right",
+                      improved && "text-emerald-600",
+                      worsened && "text-orange-600"
+                    )}>
+                      {format(after)}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">
+          {output ? 'Output' : 'Draft'} reads as · <span className="text-amber-600">{readingEaseLabel(latest.readingEase)}</span>
+        </p>
+
+        <Findings title={`Hedging · ${output ? 'Output' : 'Draft'}`} items={latest.hedges.map((m) => m.word)} />
+        <Findings title={`Passive Voice · ${output ? 'Output' : 'Draft'}`} items={latest.passiveVoice.map((m) => m.word.toLowerCase())} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { CornerDownLeft, Search } from 'lucide-react';
+import { motion } from 'motion/react';
+import { fuzzyScore } from '../lib/fuzzy.ts';
+import { formatCombo } from '../lib/shortcuts.ts';
+import { cn } from '../lib/utils.ts';
+
+export interface Command {
+  id: string;
+  group: 'Actions' | 'Tones' | 'Presets' | 'Avoid Words' | 'Recent Drafts';
+  label: string;
+  // Extra text that is searched but shown dimmed, e.g. a draft's tone and date.
+  detail?: string;
+  combo?: string;
+  disabled?: boolean;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: Command[];
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+export function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // With no query, commands keep their given order; otherwise best match first.
+  const results = useMemo(() => {
+    const enabled = commands.filter((c) => !c.disabled);
+    if (!query.trim()) return enabled.slice(0, MAX_RESULTS);
+    return enabled
+      .map((command) => ({ command, score: fuzzyScore(query, `${command.label} ${command.detail ?? ''}`) }))
+      .filter((r): r is { command: Command; score: number } => r.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS)
+      .map((r) => r.command);
+  }, [commands, query]);
+
+  useEffect(() => setSelected(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const run = (command: Command | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') setSelected((i) => Math.min(i + 1, results.length - 1));
+    else if (e.key === 'ArrowUp') setSelected((i) => Math.max(i - 1, 0));
+    else if (e.key === 'Enter') run(results[selected]);
+    else if (e.key === 'Escape') onClose();
+    else return;
+    e.preventDefault();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[70] bg-slate-900/20 backdrop-blur-sm flex items-start justify-center p-6 pt-[15vh]"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, y: -12 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -12 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white border border-amber-100 rounded-[2rem] shadow-2xl shadow-amber-200/30 w-full max-w-xl overflow-hidden"
+      >
+        <div className="relative border-b border-amber-50">
+          <Search className="w-5 h-5 text-amber-400 absolute left-6 top-1/2 -translate-y-1/2" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={onKeyDown}
+            placeholder="Search actions, tones, presets and drafts…"
+            className="w-full pl-16 pr-6 py-5 text-base font-bold outline-none text-slate-700 placeholder:text-slate-300"
+          />
+        </div>
+
+        <ul ref={listRef} className="max-h-[50vh] overflow-y-auto p-2">
+          {results.map((command, i) => (
+            <li key={command.id}>
+              <button
+                onClick={() => run(command)}
+                onMouseMove={() => setSelected(i)}
+                className={cn(
+                  "w-full flex items-center gap-3 px-4 py-3 rounded-xl text-left transition-colors",
+                  i === selected ? "bg-amber-50" : "hover:bg-amber-50/50"
+                )}
+              >
+                <span className="w-24 shrink-0 text-[10px] font-black uppercase tracking-widest text-slate-300">{command.group}</span>
+                <span className="flex-1 min-w-0 truncate text-sm font-bold text-slate-700">
+                  {command.label}
+                  {command.detail && <span className="ml-2 text-xs font-semibold text-slate-400">{command.detail}</span>}
+                </span>
+                {command.combo && (
+                  <kbd className="shrink-0 px-2 py-1 rounded-lg bg-slate-100 text-[10px] font-black text-slate-500">
+                    {formatCombo(command.combo)}
+                  </kbd>
+                )}
+                {i === selected && <CornerDownLeft className="w-4 h-4 shrink-0 text-amber-500" />}
+              </button>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="px-4 py-6 text-center text-sm font-bold text-slate-400">No matching commands.</li>
+          )}
+        </ul>
+      </motion.div>
+    </motion.div>
+  );
+}
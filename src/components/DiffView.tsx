@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Check, CheckCheck, Copy, GitMerge, Undo2, X } from 'lucide-react';
+import { diffWords, mergeDiff } from '../lib/diff.ts';
+import { cn } from '../lib/utils.ts';
+
+interface DiffViewProps {
+  original: string;
+  revised: string;
+  onApply: (merged: string) => void;
+}
+
+export function DiffView({ original, revised, onApply }: DiffViewProps) {
+  const segments = useMemo(() => diffWords(original, revised), [original, revised]);
+  const hunkIds = useMemo(
+    () => segments.flatMap((segment) => (segment.type === 'change' ? [segment.id] : [])),
+    [segments],
+  );
+
+  // Every hunk starts accepted, i.e. the merged email equals the model output.
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(hunkIds));
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setAccepted(new Set(hunkIds));
+  }, [hunkIds]);
+
+  const merged = useMemo(() => mergeDiff(segments, accepted), [segments, accepted]);
+
+  const toggle = (id: number, accept: boolean) => {
+    setAccepted((current) => {
+      const next = new Set(current);
+      if (accept) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const copyMerged = () => {
+    navigator.clipboard.writeText(merged)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch((err) => console.error('Clipboard error:', err));
+  };
+
+  return (
+    <div className="space-y-10">
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Original_Draft</span>
+          <div className="p-6 rounded-[2rem] border border-amber-50 bg-amber-50/20 text-lg leading-relaxed font-semibold text-slate-600 whitespace-pre-wrap">
+            {segments.map((segment, index) =>
+              segment.type === 'equal' ? (
+                <span key={index}>{segment.text}</span>
+              ) : segment.removed ? (
+                <del key={index} className="bg-orange-100 text-orange-700 decoration-orange-400 rounded px-0.5">{segment.removed}</del>
+              ) : null
+            )}
+          </div>
+        </div>
+        <div className="space-y-3">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Refined_Output</span>
+          <div className="p-6 rounded-[2rem] border border-amber-50 bg-amber-50/20 text-lg leading-relaxed font-semibold text-slate-800 whitespace-pre-wrap">
+            {segments.map((segment, index) =>
+              segment.type === 'equal' ? (
+                <span key={index}>{segment.text}</span>
+              ) : segment.added ? (
+                <ins key={index} className="bg-emerald-100 text-emerald-800 no-underline rounded px-0.5">{segment.added}</ins>
+              ) : null
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1 flex items-center gap-2">
+            <GitMerge className="w-4 h-4 text-amber-500" />
+            Merged_Email · {accepted.size}/{hunkIds.length} changes accepted
+          </span>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setAccepted(new Set(hunkIds))}
+              className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-emerald-700 bg-slate-50 hover:bg-emerald-50 px-4 py-2 rounded-xl transition-all"
+            >
+              <CheckCheck className="w-4 h-4" /> Accept All
+            </button>
+            <button
+              onClick={() => setAccepted(new Set())}
+              className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-orange-700 bg-slate-50 hover:bg-orange-50 px-4 py-2 rounded-xl transition-all"
+            >
+              <Undo2 className="w-4 h-4" /> Reject All
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 rounded-[2rem] border-2 border-amber-100 text-lg leading-loose font-semibold text-slate-800 whitespace-pre-wrap">
+          {segments.map((segment, index) => {
+            if (segment.type === 'equal') return <span key={index}>{segment.text}</span>;
+            const isAccepted = accepted.has(segment.id);
+            return (
+              <span
+                key={index}
+                className={cn(
+                  "inline rounded-lg px-1 py-0.5 border transition-colors",
+                  isAccepted ? "bg-emerald-50 border-emerald-200" : "bg-orange-50 border-orange-200"
+                )}
+              >
+                {isAccepted
+                  ? segment.added || <span className="text-slate-300 italic">(removed)</span>
+                  : segment.removed || <span className="text-slate-300 italic">(nothing)</span>}
+                <span className="inline-flex gap-0.5 ml-1 align-middle">
+                  <button
+                    onClick={() => toggle(segment.id, true)}
+                    title="Accept change"
+                    className={cn("p-0.5 rounded", isAccepted ? "text-emerald-600" : "text-slate-300 hover:text-emerald-600")}
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => toggle(segment.id, false)}
+                    title="Reject change"
+                    className={cn("p-0.5 rounded", !isAccepted ? "text-orange-600" : "text-slate-300 hover:text-orange-600")}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              </span>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-3">
+          <button
+            onClick={copyMerged}
+            className="flex items-center gap-2 text-xs font-black text-amber-700 bg-amber-100 hover:bg-amber-200 px-6 py-3 rounded-2xl transition-all border border-amber-200 shadow-sm"
+          >
+            {copied ? <><Check className="w-5 h-5 text-emerald-600" /> Copied!</> : <><Copy className="w-5 h-5" /> Copy Merged</>}
+          </button>
+          <button
+            onClick={() => onApply(merged)}
+            className="flex items-center gap-2 text-xs font-black text-white bg-slate-900 hover:bg-slate-800 px-6 py-3 rounded-2xl transition-all shadow-sm"
+          >
+            <GitMerge className="w-5 h-5" /> Use Merged
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { Download, Mail, Send } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { downloadEml, mailtoUrl } from '../lib/export.ts';
+
+interface ExportMenuProps {
+  defaultSubject: string;
+  body: string;
+}
+
+export function ExportMenu({ defaultSubject, body }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [subject, setSubject] = useState(defaultSubject);
+
+  useEffect(() => {
+    setSubject(defaultSubject);
+  }, [defaultSubject]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 text-xs font-black text-slate-700 bg-white hover:bg-slate-50 px-5 py-3 rounded-2xl transition-all border border-amber-100 shadow-sm"
+      >
+        <Send className="w-5 h-5" /> Export
+      </button>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="absolute right-0 top-full mt-3 z-20 w-80 bg-white border border-amber-100 rounded-[2rem] p-6 shadow-2xl shadow-amber-200/30 space-y-4"
+          >
+            <div className="flex flex-col gap-2">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Subject</label>
+              <input
+                type="text"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                placeholder="Email subject"
+                className="bg-amber-50/50 border border-amber-100 rounded-2xl px-4 py-3 text-sm font-bold focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none transition-all text-slate-700"
+              />
+            </div>
+            <button
+              onClick={() => downloadEml(subject, body)}
+              className="w-full flex items-center gap-3 px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-700 bg-slate-50 hover:bg-amber-50 transition-all"
+            >
+              <Download className="w-4 h-4 text-amber-500" /> Download .eml
+            </button>
+            <a
+              href={mailtoUrl(subject, body)}
+              className="w-full flex items-center gap-3 px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-700 bg-slate-50 hover:bg-amber-50 transition-all"
+            >
+              <Mail className="w-4 h-4 text-amber-500" /> Open In Mail App
+            </a>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, CornerDownLeft, MessageSquare } from 'lucide-react';
+import type { DraftRecord } from '../types.ts';
+import { cn } from '../lib/utils.ts';
+
+interface FollowUpPanelProps {
+  // The thread behind the visible output, oldest first.
+  versions: DraftRecord[];
+  activeId: number | null;
+  isLoading: boolean;
+  onSelect: (version: DraftRecord) => void;
+  // Revises the active version; the new version replaces any later ones in this view.
+  onSubmit: (instruction: string) => void;
+}
+
+const SUGGESTIONS = ['Shorter', 'Less apologetic', 'More direct', 'Add a clear ask'];
+
+export function FollowUpPanel({ versions, activeId, isLoading, onSelect, onSubmit }: FollowUpPanelProps) {
+  const [instruction, setInstruction] = useState('');
+  const index = versions.findIndex((v) => v.id === activeId);
+  const active = versions[index];
+
+  const submit = (text: string) => {
+    if (!text.trim() || isLoading) return;
+    onSubmit(text.trim());
+    setInstruction('');
+  };
+
+  return (
+    <div className="px-12 py-8 border-t border-amber-50 bg-amber-50/20 space-y-5">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+          <MessageSquare className="w-4 h-4 text-amber-500" />
+          Follow_Up
+        </span>
+        {versions.length > 1 && (
+          <div className="flex items-center gap-1 ml-auto bg-white/80 p-1 rounded-2xl border border-amber-100">
+            <button
+              onClick={() => onSelect(versions[index - 1])}
+              disabled={isLoading || index <= 0}
+              title="Previous version"
+              className="p-1.5 rounded-xl text-slate-400 hover:text-slate-700 disabled:opacity-30 transition-all"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            {versions.map((version, i) => (
+              <button
+                key={version.id}
+                onClick={() => onSelect(version)}
+                disabled={isLoading}
+                title={version.instruction ?? 'Original output'}
+                className={cn(
+                  "px-3 py-1.5 rounded-xl text-xs font-black transition-all",
+                  version.id === activeId ? "bg-slate-900 text-white" : "text-slate-400 hover:text-slate-700"
+                )}
+              >
+                v{i + 1}
+              </button>
+            ))}
+            <button
+              onClick={() => onSelect(versions[index + 1])}
+              disabled={isLoading || index === -1 || index >= versions.length - 1}
+              title="Next version"
+              className="p-1.5 rounded-xl text-slate-400 hover:text-slate-700 disabled:opacity-30 transition-all"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {active?.instruction && (
+        <p className="text-xs font-bold text-slate-400">
+          v{index + 1} · “{active.instruction}”
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <input
+          type="text"
+          value={instruction}
+          maxLength={500}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit(instruction)}
+          disabled={isLoading}
+          placeholder="e.g. shorter, mention the Q3 date, less apologetic…"
+          className="flex-1 bg-white border border-amber-100 rounded-2xl px-5 py-3.5 text-sm font-bold focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none transition-all text-slate-700 disabled:opacity-50"
+        />
+        <button
+          onClick={() => submit(instruction)}
+          disabled={isLoading || !instruction.trim()}
+          className="flex items-center gap-2 px-6 py-3.5 rounded-2xl font-black uppercase tracking-widest text-xs bg-slate-900 text-white hover:bg-slate-800 transition-all active:scale-95 disabled:opacity-40"
+        >
+          <CornerDownLeft className="w-4 h-4" />
+          Revise
+        </button>
+      </div>
+
+      {versions.length > 1 && index !== versions.length - 1 && index !== -1 && (
+        <p className="text-[10px] font-black uppercase tracking-widest text-amber-600/70">
+          Revising v{index + 1} branches off; v{index + 2}–v{versions.length} stay in history
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {SUGGESTIONS.map((suggestion) => (
+          <button
+            key={suggestion}
+            onClick={() => submit(suggestion)}
+            disabled={isLoading}
+            className="px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 bg-white border border-amber-100 hover:text-amber-700 hover:border-amber-300 transition-all disabled:opacity-40"
+          >
+            {suggestion}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
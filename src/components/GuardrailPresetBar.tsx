@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useRef, useState, type ChangeEvent } from 'react';
+import { Download, Save, Trash2, Upload } from 'lucide-react';
+import { downloadJson } from '../lib/export.ts';
+import {
+  MAX_PRESET_NAME_LENGTH,
+  PRESET_EXPORT_VERSION,
+  parseGuardrailPresetExport,
+  type GuardrailPreset,
+  type GuardrailPresetExport,
+  type GuardrailPresetInput,
+} from '../presets.ts';
+import { cn } from '../lib/utils.ts';
+
+interface GuardrailPresetBarProps {
+  presets: GuardrailPreset[];
+  activeId: string | null;
+  // The guardrails were changed by hand after the active preset was applied.
+  isModified: boolean;
+  onSelect: (preset: GuardrailPreset | null) => void;
+  onSaveAs: (name: string) => Promise<void>;
+  onUpdate: () => Promise<void>;
+  onDelete: () => Promise<void>;
+  onImport: (presets: GuardrailPresetInput[]) => Promise<void>;
+}
+
+const BUTTON_CLASS = "flex items-center gap-1.5 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 bg-amber-50/50 border border-amber-100 hover:text-amber-700 hover:border-amber-300 transition-all disabled:opacity-40 disabled:pointer-events-none";
+
+export function GuardrailPresetBar({
+  presets,
+  activeId,
+  isModified,
+  onSelect,
+  onSaveAs,
+  onUpdate,
+  onDelete,
+  onImport,
+}: GuardrailPresetBarProps) {
+  const [newName, setNewName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Preset action failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveAs = () => run(async () => {
+    await onSaveAs(newName.trim());
+    setNewName('');
+  });
+
+  const exportPresets = () => {
+    const file: GuardrailPresetExport = {
+      version: PRESET_EXPORT_VERSION,
+      presets: presets.map(({ name, tone, avoidWords, maxLengthRatio }) => ({ name, tone, avoidWords, maxLengthRatio })),
+    };
+    downloadJson(file, 'soldraft-guardrail-presets.json');
+  };
+
+  const importFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      let inputs: GuardrailPresetInput[] | null = null;
+      try {
+        inputs = parseGuardrailPresetExport(JSON.parse(await file.text()));
+      } catch {
+        // Not JSON at all; reported below like any other invalid file.
+      }
+      if (!inputs) throw new Error(`${file.name} is not a valid presets file.`);
+      await onImport(inputs);
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">
+        Team Preset{isModified && ' · modified'}
+      </label>
+      <select
+        value={activeId ?? ''}
+        onChange={(e) => onSelect(presets.find((p) => p.id === e.target.value) ?? null)}
+        className="bg-amber-50/50 border border-amber-100 rounded-2xl px-5 py-3.5 text-sm font-bold focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none transition-all text-slate-700"
+      >
+        <option value="">No preset</option>
+        {presets.map((preset) => (
+          <option key={preset.id} value={preset.id}>{preset.name}</option>
+        ))}
+      </select>
+
+      <div className="flex flex-wrap gap-2">
+        {activeId && (
+          <>
+            <button onClick={() => run(onUpdate)} disabled={isBusy || !isModified} className={BUTTON_CLASS}>
+              <Save className="w-3.5 h-3.5" /> Update
+            </button>
+            <button onClick={() => run(onDelete)} disabled={isBusy} className={cn(BUTTON_CLASS, "hover:text-orange-600 hover:border-orange-200")}>
+              <Trash2 className="w-3.5 h-3.5" /> Delete
+            </button>
+          </>
+        )}
+        <button onClick={() => fileRef.current?.click()} disabled={isBusy} className={BUTTON_CLASS}>
+          <Upload className="w-3.5 h-3.5" /> Import
+        </button>
+        <button onClick={exportPresets} disabled={presets.length === 0} className={BUTTON_CLASS}>
+          <Download className="w-3.5 h-3.5" /> Export
+        </button>
+        <input ref={fileRef} type="file" accept="application/json,.json" onChange={importFile} className="hidden" />
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          maxLength={MAX_PRESET_NAME_LENGTH}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && newName.trim() && saveAs()}
+          placeholder="Save current as…"
+          className="flex-1 min-w-0 bg-amber-50/50 border border-amber-100 rounded-2xl px-5 py-3 text-sm font-bold focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none transition-all text-slate-700"
+        />
+        <button onClick={saveAs} disabled={isBusy || !newName.trim()} className={BUTTON_CLASS}>
+          <Save className="w-3.5 h-3.5" /> Save
+        </button>
+      </div>
+
+      {error && <p className="text-xs font-bold text-orange-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AlertTriangle, Ruler, ShieldCheck } from 'lucide-react';
+import type { GuardrailReport } from '../guardrails.ts';
+
+export function GuardrailReportBar({ report }: { report: GuardrailReport }) {
+  if (report.passed) {
+    return (
+      <div className="flex items-center gap-3 text-xs font-black uppercase tracking-widest text-emerald-600 bg-emerald-50 px-6 py-4 rounded-2xl border border-emerald-100">
+        <ShieldCheck className="w-5 h-5" />
+        Guardrails_Passed · {report.outputWords}/{report.draftWords} words
+      </div>
+    );
+  }
+
+  const counts = new Map<string, number>();
+  for (const match of report.avoidWordMatches) {
+    counts.set(match.word, (counts.get(match.word) ?? 0) + 1);
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs font-black text-orange-700 bg-orange-50 px-6 py-4 rounded-2xl border border-orange-100">
+      <span className="flex items-center gap-2 uppercase tracking-widest">
+        <AlertTriangle className="w-5 h-5" />
+        Guardrail_Violations
+      </span>
+      {[...counts].map(([word, count]) => (
+        <span key={word} className="px-3 py-1 bg-white rounded-xl border border-orange-200">
+          {word}{count > 1 ? ` ×${count}` : ''}
+        </span>
+      ))}
+      {report.tooLong && (
+        <span className="flex items-center gap-1.5 px-3 py-1 bg-white rounded-xl border border-orange-200">
+          <Ruler className="w-4 h-4" />
+          {report.outputWords} words vs {report.draftWords} in draft
+        </span>
+      )}
+    </div>
+  );
+}
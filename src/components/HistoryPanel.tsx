@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Ref } from 'react';
+import { History, RotateCcw, Search, Trash2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import type { ToneProfile } from '../tones.ts';
+import type { DraftRecord } from '../types.ts';
+import { cn } from '../lib/utils.ts';
+import { describeSettings } from '../models.ts';
+
+interface HistoryPanelProps {
+  drafts: DraftRecord[];
+  tones: ToneProfile[];
+  query: string;
+  activeId: number | null;
+  onQueryChange: (query: string) => void;
+  onOpen: (draft: DraftRecord) => void;
+  onRerun: (draft: DraftRecord) => void;
+  onDelete: (draft: DraftRecord) => void;
+  // Lets the app's "search history" shortcut focus the search box.
+  searchInputRef?: Ref<HTMLInputElement>;
+}
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function HistoryPanel({
+  drafts,
+  tones,
+  query,
+  activeId,
+  onQueryChange,
+  onOpen,
+  onRerun,
+  onDelete,
+  searchInputRef,
+}: HistoryPanelProps) {
+  return (
+    <div className="bg-white border border-amber-100 rounded-[2.5rem] p-10 shadow-2xl shadow-amber-200/10">
+      <h3 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400 mb-8 flex items-center gap-3">
+        <History className="w-6 h-6 text-amber-500" />
+        Draft_History
+      </h3>
+
+      <div className="relative mb-6">
+        <Search className="w-4 h-4 text-amber-400 absolute left-5 top-1/2 -translate-y-1/2" />
+        <input
+          ref={searchInputRef}
+          type="text"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="Search past drafts..."
+          className="w-full bg-amber-50/50 border border-amber-100 rounded-2xl pl-12 pr-5 py-3.5 text-sm font-bold focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none transition-all text-slate-700"
+        />
+      </div>
+
+      <ul className="space-y-3 max-h-[420px] overflow-y-auto -mx-2 px-2">
+        <AnimatePresence initial={false}>
+          {drafts.map((draft) => (
+            <motion.li
+              key={draft.id}
+              layout
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className={cn(
+                "group rounded-2xl border p-4 transition-all",
+                activeId === draft.id
+                  ? "border-amber-300 bg-amber-50"
+                  : "border-amber-50 hover:border-amber-200 hover:bg-amber-50/40"
+              )}
+            >
+              <button onClick={() => onOpen(draft)} className="w-full text-left">
+                <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-amber-600/70">
+                  <span>{draft.action}</span>
+                  <span className="text-amber-200">/</span>
+                  <span className="truncate">{tones.find((t) => t.id === draft.tone)?.label ?? 'Deleted tone'}</span>
+                  <span className="ml-auto text-slate-300">{formatTimestamp(draft.createdAt)}</span>
+                </div>
+                <p className="mt-2 text-sm font-semibold text-slate-600 line-clamp-2">{draft.draft}</p>
+                {draft.instruction && (
+                  <p className="mt-1 text-xs font-bold text-amber-600 truncate">↳ {draft.instruction}</p>
+                )}
+                <p className="mt-1 text-[10px] font-bold text-slate-300 truncate">
+                  {describeSettings(draft.settings)}
+                  {draft.promptVersion && ` · ${draft.promptVersion}`}
+                </p>
+              </button>
+              <div className="mt-3 flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => onRerun(draft)}
+                  title="Re-run"
+                  className="p-2 rounded-xl text-slate-400 hover:text-amber-700 hover:bg-amber-100 transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onDelete(draft)}
+                  title="Delete"
+                  className="p-2 rounded-xl text-slate-400 hover:text-orange-600 hover:bg-orange-50 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </motion.li>
+          ))}
+        </AnimatePresence>
+      </ul>
+
+      {drafts.length === 0 && (
+        <div className="w-full py-12 border-4 border-dashed border-amber-50 rounded-[2rem] flex flex-col items-center justify-center text-amber-200">
+          <span className="text-[10px] font-black uppercase tracking-[0.3em]">{query.trim() ? 'No Matches' : 'No Drafts Yet'}</span>
+        </div>
+      )}
+    </div>
+  );
+}
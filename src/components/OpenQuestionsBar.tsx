@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CircleHelp, MessagesSquare } from 'lucide-react';
+import type { ThreadQuestion } from '../thread.ts';
+
+interface OpenQuestionsBarProps {
+  questions: ThreadQuestion[];
+  unanswered: ThreadQuestion[];
+}
+
+export function OpenQuestionsBar({ questions, unanswered }: OpenQuestionsBarProps) {
+  if (questions.length === 0) return null;
+
+  if (unanswered.length === 0) {
+    return (
+      <div className="flex items-center gap-3 text-xs font-black uppercase tracking-widest text-emerald-600 bg-emerald-50 px-6 py-4 rounded-2xl border border-emerald-100">
+        <MessagesSquare className="w-5 h-5" />
+        Thread_Questions_Addressed · {questions.length}/{questions.length}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-xs font-black text-amber-800 bg-amber-50 px-6 py-4 rounded-2xl border border-amber-200 space-y-3">
+      <span className="flex items-center gap-2 uppercase tracking-widest">
+        <CircleHelp className="w-5 h-5" />
+        Possibly_Unanswered · {unanswered.length} of {questions.length}
+      </span>
+      <ul className="space-y-1.5 font-bold">
+        {unanswered.map((question, i) => (
+          <li key={i}>
+            “{question.text}”{question.from && <span className="text-amber-600/70"> — {question.from}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
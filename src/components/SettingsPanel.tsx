@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { Save, SlidersHorizontal, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import {
+  MAX_OUTPUT_TOKENS,
+  MAX_TEMPERATURE,
+  defaultSettings,
+  type GenerationSettings,
+  type ModelCatalog,
+} from '../models.ts';
+import { cn } from '../lib/utils.ts';
+
+interface SettingsPanelProps {
+  settings: GenerationSettings;
+  catalog: ModelCatalog | null;
+  onClose: () => void;
+  onSave: (settings: GenerationSettings) => Promise<void>;
+}
+
+const INPUT_CLASS = "bg-amber-50/50 border border-amber-100 rounded-2xl px-5 py-3.5 text-sm font-bold focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none transition-all text-slate-700";
+
+function parseOptionalInt(value: string): number | null {
+  const n = Number.parseInt(value, 10);
+  return Number.isNaN(n) ? null : n;
+}
+
+export function SettingsPanel({ settings, catalog, onClose, onSave }: SettingsPanelProps) {
+  const [form, setForm] = useState<GenerationSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof GenerationSettings>(key: K, value: GenerationSettings[K]) => {
+    setForm((current) => ({ ...current, [key]: value }));
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(form);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-slate-900/20 backdrop-blur-sm flex items-center justify-center p-6"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 24 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 24 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white border border-amber-100 rounded-[2.5rem] shadow-2xl shadow-amber-200/30 w-full max-w-lg"
+      >
+        <div className="px-10 py-6 border-b border-amber-50 flex items-center justify-between bg-amber-50/20">
+          <h3 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400 flex items-center gap-3">
+            <SlidersHorizontal className="w-6 h-6 text-amber-500" />
+            Model_Settings
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-10 space-y-6">
+          <div className="flex flex-col gap-3">
+            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">
+              Model{catalog && ` · ${catalog.provider}`}
+            </label>
+            <select value={form.model} onChange={(e) => update('model', e.target.value)} className={INPUT_CLASS}>
+              {(catalog?.models ?? [form.model]).map((model) => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Temperature</label>
+              <button
+                onClick={() => update('temperature', form.temperature === null ? 1 : null)}
+                className={cn(
+                  "text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-lg transition-all",
+                  form.temperature === null ? "bg-slate-900 text-white" : "text-slate-400 hover:text-slate-700"
+                )}
+              >
+                Model Default
+              </button>
+            </div>
+            <div className="flex items-center gap-4">
+              <input
+                type="range"
+                min={0}
+                max={MAX_TEMPERATURE}
+                step={0.1}
+                value={form.temperature ?? 1}
+                disabled={form.temperature === null}
+                onChange={(e) => update('temperature', Number(e.target.value))}
+                className="flex-1 accent-amber-500 disabled:opacity-40"
+              />
+              <span className="w-10 text-right text-sm font-black text-slate-700">
+                {form.temperature === null ? '—' : form.temperature.toFixed(1)}
+              </span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex flex-col gap-3">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Max Output Tokens</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_OUTPUT_TOKENS}
+                value={form.maxOutputTokens ?? ''}
+                placeholder="Default"
+                onChange={(e) => update('maxOutputTokens', parseOptionalInt(e.target.value))}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div className="flex flex-col gap-3">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Seed</label>
+              <input
+                type="number"
+                value={form.seed ?? ''}
+                placeholder="Random"
+                onChange={(e) => update('seed', parseOptionalInt(e.target.value))}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm font-bold text-orange-600">{error}</p>}
+
+          <div className="flex justify-between">
+            <button
+              onClick={() => setForm(defaultSettings(catalog?.defaultModel ?? form.model))}
+              className="px-5 py-4 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-400 hover:text-slate-700 transition-all"
+            >
+              Reset
+            </button>
+            <button
+              onClick={save}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-6 py-4 rounded-2xl font-black uppercase tracking-widest bg-amber-500 text-white hover:bg-amber-600 shadow-xl shadow-amber-100 transition-all active:scale-95 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { Keyboard, RotateCcw, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import {
+  SHORTCUTS,
+  comboFromEvent,
+  findShortcut,
+  formatCombo,
+  type ShortcutBindings,
+  type ShortcutId,
+} from '../lib/shortcuts.ts';
+import { cn } from '../lib/utils.ts';
+
+interface ShortcutsHelpProps {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+export function ShortcutsHelp({ bindings, onChange, onClose }: ShortcutsHelpProps) {
+  // The shortcut waiting for its new combo; the next key press (other than Escape) becomes it.
+  const [recording, setRecording] = useState<ShortcutId | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        if (recording) setRecording(null);
+        else onClose();
+        return;
+      }
+      if (!recording) return;
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      e.preventDefault();
+
+      const taken = findShortcut(bindings, combo);
+      if (taken && taken !== recording) {
+        setError(`${formatCombo(combo)} already runs “${SHORTCUTS.find((s) => s.id === taken)?.label}”.`);
+        return;
+      }
+      setError(null);
+      setRecording(null);
+      onChange({ ...bindings, [recording]: combo });
+    };
+    // Capture phase, so the app's own shortcuts never see the keys being recorded.
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [recording, bindings, onChange, onClose]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[70] bg-slate-900/20 backdrop-blur-sm flex items-center justify-center p-6"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 24 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 24 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white border border-amber-100 rounded-[2.5rem] shadow-2xl shadow-amber-200/30 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+      >
+        <div className="px-10 py-6 border-b border-amber-50 flex items-center justify-between bg-amber-50/20">
+          <h3 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400 flex items-center gap-3">
+            <Keyboard className="w-6 h-6 text-amber-500" />
+            Keyboard_Shortcuts
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-10 space-y-2">
+          {SHORTCUTS.map((shortcut) => {
+            const combo = bindings[shortcut.id];
+            return (
+              <div key={shortcut.id} className="flex items-center gap-3 py-1.5">
+                <span className="flex-1 text-sm font-bold text-slate-600">{shortcut.label}</span>
+                <button
+                  onClick={() => {
+                    setError(null);
+                    setRecording(recording === shortcut.id ? null : shortcut.id);
+                  }}
+                  title="Click, then press the new combination"
+                  className={cn(
+                    "min-w-[96px] px-3 py-1.5 rounded-xl text-xs font-black transition-all border",
+                    recording === shortcut.id
+                      ? "border-amber-400 bg-amber-50 text-amber-700 animate-pulse"
+                      : "border-amber-100 bg-slate-50 text-slate-600 hover:border-amber-300"
+                  )}
+                >
+                  {recording === shortcut.id ? 'Press keys…' : formatCombo(combo)}
+                </button>
+                <button
+                  onClick={() => onChange({ ...bindings, [shortcut.id]: shortcut.defaultCombo })}
+                  disabled={combo === shortcut.defaultCombo}
+                  title={`Reset to ${formatCombo(shortcut.defaultCombo)}`}
+                  className="p-1.5 rounded-xl text-slate-300 hover:text-slate-600 disabled:opacity-0 transition-all"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+
+          {error && <p className="pt-2 text-xs font-bold text-orange-600">{error}</p>}
+          <p className="pt-4 text-[11px] font-semibold text-slate-400 leading-relaxed">
+            Shortcuts without Ctrl, ⌘ or Alt are ignored while you type in a text box. Changes are saved in this browser.
+          </p>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
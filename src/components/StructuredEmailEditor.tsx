@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { Check, Copy, Plus, X } from 'lucide-react';
+import { formatActionItem, type ActionItem, type StructuredEmail } from '../structured.ts';
+
+function CopyButton({ text }: { text: string }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <button
+      onClick={() => {
+        navigator.clipboard.writeText(text)
+          .then(() => {
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+          })
+          .catch((err) => console.error('Clipboard error:', err));
+      }}
+      title="Copy"
+      className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-amber-700 bg-amber-100 hover:bg-amber-200 px-3 py-1.5 rounded-xl transition-all"
+    >
+      {copied ? <><Check className="w-3.5 h-3.5 text-emerald-600" /> Copied</> : <><Copy className="w-3.5 h-3.5" /> Copy</>}
+    </button>
+  );
+}
+
+function FieldHeader({ label, copyText }: { label: string; copyText: string }) {
+  return (
+    <div className="flex items-center justify-between">
+      <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">{label}</label>
+      <CopyButton text={copyText} />
+    </div>
+  );
+}
+
+const FIELD_CLASS = "w-full bg-amber-50/20 border border-amber-50 rounded-2xl px-5 py-3.5 focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none transition-all text-slate-800";
+
+interface StructuredEmailEditorProps {
+  email: StructuredEmail;
+  onChange: (email: StructuredEmail) => void;
+}
+
+export function StructuredEmailEditor({ email, onChange }: StructuredEmailEditorProps) {
+  const update = <K extends keyof StructuredEmail>(key: K, value: StructuredEmail[K]) => {
+    onChange({ ...email, [key]: value });
+  };
+
+  const updateItem = (index: number, patch: Partial<ActionItem>) => {
+    update('actionItems', email.actionItems.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-3">
+        <FieldHeader label="Subject" copyText={email.subject} />
+        <input
+          type="text"
+          value={email.subject}
+          onChange={(e) => update('subject', e.target.value)}
+          className={`${FIELD_CLASS} text-xl font-black`}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <FieldHeader label="TL;DR" copyText={email.tldr} />
+        <input
+          type="text"
+          value={email.tldr}
+          onChange={(e) => update('tldr', e.target.value)}
+          className={`${FIELD_CLASS} text-lg font-bold`}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <FieldHeader label="Body" copyText={email.body} />
+        <textarea
+          value={email.body}
+          onChange={(e) => update('body', e.target.value)}
+          className={`${FIELD_CLASS} h-72 resize-y text-lg font-semibold leading-relaxed`}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <FieldHeader
+          label="Action Items"
+          copyText={email.actionItems.map((item) => `- ${formatActionItem(item)}`).join('\n')}
+        />
+        <div className="space-y-2">
+          {email.actionItems.map((item, index) => (
+            <div key={index} className="grid grid-cols-[140px_1fr_120px_auto] gap-2">
+              <input
+                type="text"
+                value={item.owner}
+                placeholder="Owner"
+                onChange={(e) => updateItem(index, { owner: e.target.value })}
+                className={`${FIELD_CLASS} text-sm font-bold`}
+              />
+              <input
+                type="text"
+                value={item.task}
+                placeholder="Task"
+                onChange={(e) => updateItem(index, { task: e.target.value })}
+                className={`${FIELD_CLASS} text-sm font-semibold`}
+              />
+              <input
+                type="text"
+                value={item.due}
+                placeholder="Due"
+                onChange={(e) => updateItem(index, { due: e.target.value })}
+                className={`${FIELD_CLASS} text-sm font-bold`}
+              />
+              <button
+                onClick={() => update('actionItems', email.actionItems.filter((_, i) => i !== index))}
+                title="Remove"
+                className="p-3 text-slate-300 hover:text-orange-600 transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => update('actionItems', [...email.actionItems, { owner: '', task: '', due: '' }])}
+            className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-amber-700 bg-slate-50 hover:bg-amber-50 px-4 py-2 rounded-xl transition-all"
+          >
+            <Plus className="w-4 h-4" /> Add Item
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
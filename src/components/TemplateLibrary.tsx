@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { ArrowRight, LayoutTemplate, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import {
+  EMAIL_TEMPLATES,
+  extractPlaceholders,
+  fillTemplate,
+  placeholderLabel,
+  type EmailTemplate,
+} from '../templates.ts';
+import type { ToneProfile } from '../tones.ts';
+import { cn } from '../lib/utils.ts';
+
+interface TemplateLibraryProps {
+  tones: ToneProfile[];
+  onClose: () => void;
+  onUse: (text: string, template: EmailTemplate) => void;
+}
+
+export function TemplateLibrary({ tones, onClose, onUse }: TemplateLibraryProps) {
+  const [template, setTemplate] = useState<EmailTemplate>(EMAIL_TEMPLATES[0]);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const placeholders = extractPlaceholders(template.body);
+  const toneLabel = tones.find((t) => t.id === template.tone)?.label ?? template.tone;
+
+  const select = (next: EmailTemplate) => {
+    setTemplate(next);
+    setValues({});
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-slate-900/20 backdrop-blur-sm flex items-center justify-center p-6"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 24 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 24 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white border border-amber-100 rounded-[2.5rem] shadow-2xl shadow-amber-200/30 w-full max-w-4xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="px-10 py-6 border-b border-amber-50 flex items-center justify-between bg-amber-50/20">
+          <h3 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400 flex items-center gap-3">
+            <LayoutTemplate className="w-6 h-6 text-amber-500" />
+            Template_Library
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-10 grid md:grid-cols-[240px_1fr] gap-10">
+          <div className="space-y-3">
+            {EMAIL_TEMPLATES.map((t) => (
+              <button
+                key={t.id}
+                onClick={() => select(t)}
+                className={cn(
+                  "w-full text-left px-4 py-3 rounded-2xl border transition-all",
+                  template.id === t.id ? "border-amber-300 bg-amber-50" : "border-amber-50 hover:border-amber-200"
+                )}
+              >
+                <span className="block text-xs font-black text-slate-700">{t.label}</span>
+                <span className="block mt-1 text-[11px] font-semibold text-slate-400 leading-snug">{t.description}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-6">
+            <div className="grid sm:grid-cols-2 gap-4">
+              {placeholders.map((name) => (
+                <div key={name} className="flex flex-col gap-2">
+                  <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">{placeholderLabel(name)}</label>
+                  <input
+                    type="text"
+                    value={values[name] ?? ''}
+                    onChange={(e) => setValues((current) => ({ ...current, [name]: e.target.value }))}
+                    className="bg-amber-50/50 border border-amber-100 rounded-2xl px-4 py-3 text-sm font-bold focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none transition-all text-slate-700"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Preview</label>
+              <pre className="whitespace-pre-wrap font-sans text-sm font-semibold text-slate-600 leading-relaxed bg-amber-50/30 border border-amber-50 rounded-2xl px-5 py-4">
+                {fillTemplate(template.body, values)}
+              </pre>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Tone · {toneLabel}</span>
+              <button
+                onClick={() => onUse(fillTemplate(template.body, values), template)}
+                className="flex items-center gap-2 px-6 py-4 rounded-2xl font-black uppercase tracking-widest bg-amber-500 text-white hover:bg-amber-600 shadow-xl shadow-amber-100 transition-all active:scale-95"
+              >
+                Use Template
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
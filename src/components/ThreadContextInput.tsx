@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useRef, useState, type ChangeEvent } from 'react';
+import { ChevronDown, MessagesSquare, Upload, X } from 'lucide-react';
+import { MAX_THREAD_CHARS, findQuestions, type ThreadMessage } from '../thread.ts';
+import { cn } from '../lib/utils.ts';
+
+interface ThreadContextInputProps {
+  value: string;
+  messages: ThreadMessage[];
+  onChange: (value: string) => void;
+}
+
+export function ThreadContextInput({ value, messages, onChange }: ThreadContextInputProps) {
+  const [open, setOpen] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const questions = findQuestions(messages);
+
+  const loadFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    onChange(await file.text());
+    setOpen(true);
+  };
+
+  return (
+    <div className="mt-6 border border-amber-50 rounded-[2rem] bg-amber-50/10">
+      <div className="flex items-center gap-3 px-6 py-4">
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-amber-700 transition-all"
+        >
+          <MessagesSquare className="w-4 h-4 text-amber-500" />
+          Thread_Context
+          <ChevronDown className={cn("w-4 h-4 transition-transform", open && "rotate-180")} />
+        </button>
+        {messages.length > 0 && (
+          <span className="text-[10px] font-black uppercase tracking-widest text-amber-600">
+            {messages.length} {messages.length === 1 ? 'message' : 'messages'} · {questions.length} {questions.length === 1 ? 'question' : 'questions'}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {value && (
+            <button
+              onClick={() => onChange('')}
+              title="Clear thread"
+              className="p-2 rounded-xl text-slate-300 hover:text-orange-600 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 bg-white border border-amber-100 hover:text-amber-700 hover:border-amber-300 transition-all"
+          >
+            <Upload className="w-3.5 h-3.5" /> .eml / .txt
+          </button>
+          <input ref={fileRef} type="file" accept=".eml,.txt,message/rfc822,text/plain" onChange={loadFile} className="hidden" />
+        </div>
+      </div>
+
+      {open && (
+        <div className="px-6 pb-6 space-y-4">
+          <textarea
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Paste the email thread you're replying to, quoted replies and all…"
+            className="w-full h-40 p-5 bg-white border border-amber-100 rounded-2xl focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none resize-none text-sm font-semibold text-slate-700 placeholder:text-slate-300 transition-all leading-relaxed"
+          />
+          {value.length > MAX_THREAD_CHARS && (
+            <p className="text-[10px] font-black uppercase tracking-widest text-amber-600/70">
+              Long thread · only the newest messages, up to {MAX_THREAD_CHARS.toLocaleString()} characters, are used
+            </p>
+          )}
+          {messages.length > 0 && (
+            <ol className="space-y-2">
+              {messages.map((message, i) => (
+                <li key={i} className="px-4 py-3 bg-white border border-amber-50 rounded-2xl">
+                  <div className="flex gap-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                    <span className="truncate text-slate-600">{message.from || 'Unknown sender'}</span>
+                    <span className="ml-auto shrink-0">{message.date}</span>
+                  </div>
+                  <p className="mt-1 text-xs font-semibold text-slate-500 line-clamp-2">{message.body}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { Palette, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import {
+  TONE_COLORS,
+  TONE_ICONS,
+  type ToneProfile,
+  type ToneProfileInput,
+} from '../tones.ts';
+import { TONE_ACTIVE_CLASSES, TONE_SWATCH_CLASSES, ToneIconView } from '../lib/toneStyles.tsx';
+import { cn } from '../lib/utils.ts';
+
+interface ToneEditorProps {
+  tones: ToneProfile[];
+  onClose: () => void;
+  onSave: (input: ToneProfileInput, id: string | null) => Promise<void>;
+  onDelete: (tone: ToneProfile) => Promise<void>;
+}
+
+const EMPTY_TONE: ToneProfileInput = {
+  label: '',
+  icon: 'megaphone',
+  color: 'rose',
+  description: '',
+  instructions: '',
+};
+
+export function ToneEditor({ tones, onClose, onSave, onDelete }: ToneEditorProps) {
+  const customTones = tones.filter((tone) => !tone.builtIn);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ToneProfileInput>(EMPTY_TONE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof ToneProfileInput>(key: K, value: ToneProfileInput[K]) => {
+    setForm((current) => ({ ...current, [key]: value }));
+  };
+
+  const startEditing = (tone: ToneProfile | null) => {
+    setEditingId(tone?.id ?? null);
+    setForm(tone ? {
+      label: tone.label,
+      icon: tone.icon,
+      color: tone.color,
+      description: tone.description,
+      instructions: tone.instructions,
+    } : EMPTY_TONE);
+    setError(null);
+  };
+
+  const save = async () => {
+    if (!form.label.trim() || !form.instructions.trim()) {
+      setError('A tone needs a label and prompt instructions.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(form, editingId);
+      startEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save this tone.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-slate-900/20 backdrop-blur-sm flex items-center justify-center p-6"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 24 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 24 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white border border-amber-100 rounded-[2.5rem] shadow-2xl shadow-amber-200/30 w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="px-10 py-6 border-b border-amber-50 flex items-center justify-between bg-amber-50/20">
+          <h3 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400 flex items-center gap-3">
+            <Palette className="w-6 h-6 text-amber-500" />
+            Tone_Studio
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-10 grid md:grid-cols-[220px_1fr] gap-10">
+          <div className="space-y-3">
+            <button
+              onClick={() => startEditing(null)}
+              className={cn(
+                "w-full flex items-center gap-2 px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest transition-all",
+                editingId === null ? "bg-slate-900 text-white" : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+              )}
+            >
+              <Plus className="w-4 h-4" />
+              New Tone
+            </button>
+            {customTones.map((tone) => (
+              <div
+                key={tone.id}
+                className={cn(
+                  "group flex items-center gap-2 px-4 py-3 rounded-2xl border text-xs font-bold transition-all",
+                  editingId === tone.id ? "border-amber-300 bg-amber-50" : "border-amber-50 hover:border-amber-200"
+                )}
+              >
+                <span className={cn("p-1.5 rounded-lg", TONE_ACTIVE_CLASSES[tone.color])}>
+                  <ToneIconView icon={tone.icon} className="w-3 h-3" />
+                </span>
+                <span className="flex-1 truncate text-slate-700">{tone.label}</span>
+                <button onClick={() => startEditing(tone)} title="Edit" className="text-slate-300 hover:text-amber-700 transition-colors">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    if (editingId === tone.id) startEditing(null);
+                    onDelete(tone);
+                  }}
+                  title="Delete"
+                  className="text-slate-300 hover:text-orange-600 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {customTones.length === 0 && (
+              <p className="text-[10px] font-black uppercase tracking-[0.2em] text-amber-300 px-1 pt-2">No Custom Tones</p>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            <div className="flex flex-col gap-3">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Label</label>
+              <input
+                type="text"
+                value={form.label}
+                maxLength={40}
+                onChange={(e) => update('label', e.target.value)}
+                placeholder="e.g. Exec Escalation"
+                className="bg-amber-50/50 border border-amber-100 rounded-2xl px-5 py-3.5 text-sm font-bold focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none transition-all text-slate-700"
+              />
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Icon</label>
+              <div className="flex flex-wrap gap-2">
+                {TONE_ICONS.map((icon) => (
+                  <button
+                    key={icon}
+                    onClick={() => update('icon', icon)}
+                    className={cn(
+                      "p-3 rounded-xl border transition-all",
+                      form.icon === icon ? TONE_ACTIVE_CLASSES[form.color] : "border-amber-100 text-slate-400 hover:text-slate-700"
+                    )}
+                  >
+                    <ToneIconView icon={icon} />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Colour</label>
+              <div className="flex flex-wrap gap-3">
+                {TONE_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => update('color', color)}
+                    title={color}
+                    className={cn(
+                      "w-8 h-8 rounded-full transition-all",
+                      TONE_SWATCH_CLASSES[color],
+                      form.color === color ? "ring-4 ring-offset-2 ring-amber-200 scale-110" : "opacity-70 hover:opacity-100"
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => update('description', e.target.value)}
+                placeholder="When should the team reach for this tone?"
+                className="bg-amber-50/50 border border-amber-100 rounded-2xl px-5 py-3.5 text-sm font-bold focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none transition-all text-slate-700"
+              />
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">Prompt Instructions</label>
+              <textarea
+                value={form.instructions}
+                maxLength={2000}
+                onChange={(e) => update('instructions', e.target.value)}
+                placeholder="e.g. Lead with customer impact, state the current status and ETA, and avoid internal jargon."
+                className="h-32 bg-amber-50/50 border border-amber-100 rounded-2xl px-5 py-3.5 text-sm font-semibold focus:ring-8 focus:ring-amber-500/5 focus:border-amber-400/50 outline-none resize-none transition-all text-slate-700 leading-relaxed"
+              />
+            </div>
+
+            {error && <p className="text-sm font-bold text-orange-600">{error}</p>}
+
+            <div className="flex justify-end">
+              <button
+                onClick={save}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-6 py-4 rounded-2xl font-black uppercase tracking-widest bg-amber-500 text-white hover:bg-amber-600 shadow-xl shadow-amber-100 transition-all active:scale-95 disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                {editingId ? 'Update Tone' : 'Save Tone'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
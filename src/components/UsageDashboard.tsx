@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { BarChart3, Save, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import * as api from '../lib/api.ts';
+import { getUserId } from '../lib/user.ts';
+import { cn } from '../lib/utils.ts';
+import type { ModelCatalog } from '../models.ts';
+import { ANONYMOUS_USER } from '../types.ts';
+import {
+  DEFAULT_USAGE_PERIOD,
+  USAGE_PERIODS,
+  formatCost,
+  formatTokens,
+  type ModelPrice,
+  type UsageReport,
+  type UsageRow,
+} from '../usage.ts';
+
+interface UsageDashboardProps {
+  catalog: ModelCatalog | null;
+  onClose: () => void;
+}
+
+type PriceForm = Record<string, { input: string; output: string }>;
+
+const INPUT_CLASS = "w-24 bg-amber-50/50 border border-amber-100 rounded-xl px-3 py-2 text-xs font-bold text-right focus:border-amber-400/50 outline-none transition-all text-slate-700";
+
+function formatLatency(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function userLabel(id: string): string {
+  if (id === getUserId()) return 'You';
+  if (id === ANONYMOUS_USER) return 'Anonymous';
+  return `User ${id.slice(0, 8)}`;
+}
+
+function toPriceForm(prices: ModelPrice[]): PriceForm {
+  return Object.fromEntries(prices.map((p) => [p.model, { input: String(p.inputPerMillion), output: String(p.outputPerMillion) }]));
+}
+
+function UsageTable({ title, rows, label }: { title: string; rows: UsageRow[]; label: (key: string) => string }) {
+  if (rows.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">{title}</span>
+      <table className="w-full text-xs font-bold text-slate-600">
+        <thead>
+          <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <th className="text-left pb-2 font-black" />
+            <th className="text-right pb-2 font-black">Requests</th>
+            <th className="text-right pb-2 font-black">Tokens In</th>
+            <th className="text-right pb-2 font-black">Tokens Out</th>
+            <th className="text-right pb-2 font-black">Latency</th>
+            <th className="text-right pb-2 font-black">Est. Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-t border-amber-50">
+              <td className="py-2 truncate max-w-[180px]">{label(row.key)}</td>
+              <td className="py-2 text-right">
+                {row.requests}
+                {row.failed > 0 && <span className="text-orange-600"> ({row.failed} failed)</span>}
+              </td>
+              <td className="py-2 text-right">{formatTokens(row.inputTokens)}</td>
+              <td className="py-2 text-right">{formatTokens(row.outputTokens)}</td>
+              <td className="py-2 text-right">{formatLatency(row.avgLatencyMs)}</td>
+              <td className="py-2 text-right" title={row.unpriced ? `${row.unpriced} requests on models without a price` : undefined}>
+                {formatCost(row.cost)}{row.unpriced > 0 && '*'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function UsageDashboard({ catalog, onClose }: UsageDashboardProps) {
+  const [days, setDays] = useState(DEFAULT_USAGE_PERIOD);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [prices, setPrices] = useState<PriceForm>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = (period: number) => {
+    api.fetchUsage(period)
+      .then(setReport)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load usage.'));
+  };
+
+  useEffect(() => loadReport(days), [days]);
+
+  useEffect(() => {
+    api.fetchModelPrices()
+      .then((list) => setPrices(toPriceForm(list)))
+      .catch((err) => console.error('Prices error:', err));
+  }, []);
+
+  // Models the provider offers now, plus any that have a price or past usage.
+  const models = [...new Set([
+    ...(catalog?.models ?? []),
+    ...Object.keys(prices),
+    ...(report?.byModel.map((row) => row.key) ?? []),
+  ])];
+
+  const updatePrice = (model: string, field: 'input' | 'output', value: string) => {
+    setPrices((current) => ({ ...current, [model]: { input: '', output: '', ...current[model], [field]: value } }));
+  };
+
+  const savePrices = async () => {
+    // A model with either field left blank has no price.
+    const list: ModelPrice[] = Object.entries(prices)
+      .filter(([, p]) => p.input.trim() && p.output.trim())
+      .map(([model, p]) => ({ model, inputPerMillion: Number(p.input), outputPerMillion: Number(p.output) }));
+    setIsSaving(true);
+    setError(null);
+    try {
+      setPrices(toPriceForm(await api.saveModelPrices(list)));
+      loadReport(days);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save prices.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const total = report?.total;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-slate-900/20 backdrop-blur-sm flex items-center justify-center p-6"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 24 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 24 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white border border-amber-100 rounded-[2.5rem] shadow-2xl shadow-amber-200/30 w-full max-w-4xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="px-10 py-6 border-b border-amber-50 flex items-center justify-between bg-amber-50/20">
+          <h3 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400 flex items-center gap-3">
+            <BarChart3 className="w-6 h-6 text-amber-500" />
+            Usage_&_Cost
+          </h3>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-1 bg-white p-1 rounded-2xl border border-amber-100">
+              {USAGE_PERIODS.map((period) => (
+                <button
+                  key={period}
+                  onClick={() => setDays(period)}
+                  className={cn(
+                    "px-3 py-1.5 rounded-xl text-xs font-black transition-all",
+                    period === days ? "bg-slate-900 text-white" : "text-slate-400 hover:text-slate-700"
+                  )}
+                >
+                  {period}d
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-10 space-y-10">
+          {error && <p className="text-sm font-bold text-orange-600">{error}</p>}
+
+          {total && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {[
+                ['Requests', String(total.requests)],
+                ['Tokens In', formatTokens(total.inputTokens)],
+                ['Tokens Out', formatTokens(total.outputTokens)],
+                ['Avg Latency', formatLatency(total.avgLatencyMs)],
+                ['Est. Cost', `${formatCost(total.cost)}${total.unpriced > 0 ? '*' : ''}`],
+              ].map(([label, value]) => (
+                <div key={label} className="bg-amber-50/50 border border-amber-100 rounded-2xl px-5 py-4">
+                  <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400">{label}</span>
+                  <span className="block mt-1 text-2xl font-black text-slate-800">{value}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {total && total.unpriced > 0 && (
+            <p className="text-[11px] font-semibold text-slate-400">
+              * {total.unpriced} of {total.requests} requests used models without a price; set one below to include them.
+            </p>
+          )}
+          {total?.requests === 0 && (
+            <p className="text-sm font-bold text-slate-400">No generations in the last {days} days.</p>
+          )}
+
+          {report && (
+            <>
+              <UsageTable title="By Day (UTC)" rows={report.byDay} label={(key) => key} />
+              <UsageTable title="By User" rows={report.byUser} label={userLabel} />
+              <UsageTable title="By Action" rows={report.byAction} label={(key) => key.replace('-', ' ')} />
+              <UsageTable title="By Model" rows={report.byModel} label={(key) => key} />
+            </>
+          )}
+
+          <div className="space-y-4 pt-6 border-t border-amber-50">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">
+              Model Prices · USD per 1M tokens
+            </span>
+            <div className="space-y-2">
+              {models.map((model) => (
+                <div key={model} className="flex items-center gap-3">
+                  <span className="flex-1 text-xs font-bold text-slate-600 truncate">{model}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={prices[model]?.input ?? ''}
+                    onChange={(e) => updatePrice(model, 'input', e.target.value)}
+                    placeholder="Input"
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={prices[model]?.output ?? ''}
+                    onChange={(e) => updatePrice(model, 'output', e.target.value)}
+                    placeholder="Output"
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={savePrices}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-6 py-3 rounded-2xl font-black uppercase tracking-widest text-xs bg-slate-900 text-white hover:bg-slate-800 transition-all active:scale-95 disabled:opacity-40"
+              >
+                <Save className="w-4 h-4" />
+                Save Prices
+              </button>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
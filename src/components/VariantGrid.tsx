@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AlertCircle, ArrowUpRight, Pin, RefreshCw } from 'lucide-react';
+import { motion } from 'motion/react';
+import Markdown from 'react-markdown';
+import { TONE_ACTIVE_CLASSES, ToneIconView } from '../lib/toneStyles.tsx';
+import { cn } from '../lib/utils.ts';
+import type { ToneProfile } from '../tones.ts';
+import type { DraftRecord } from '../types.ts';
+
+export interface Variant {
+  key: string;
+  tone: string;
+  text: string;
+  status: 'streaming' | 'done' | 'stopped' | 'error';
+  draft: DraftRecord | null;
+  // Set with status 'error': what went wrong, ready to show.
+  error?: string;
+}
+
+interface VariantGridProps {
+  variants: Variant[];
+  tones: ToneProfile[];
+  pinnedKey: string | null;
+  onPin: (variant: Variant) => void;
+  onContinue: (variant: Variant) => void;
+}
+
+export function VariantGrid({ variants, tones, pinnedKey, onPin, onContinue }: VariantGridProps) {
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      {variants.map((variant, index) => {
+        const tone = tones.find((t) => t.id === variant.tone);
+        const isPinned = pinnedKey === variant.key;
+        return (
+          <motion.div
+            key={variant.key}
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className={cn(
+              "flex flex-col rounded-[2rem] border-2 overflow-hidden transition-all",
+              isPinned ? "border-amber-400 shadow-xl shadow-amber-100" : "border-amber-50"
+            )}
+          >
+            <div className="px-6 py-4 flex items-center justify-between bg-amber-50/30 border-b border-amber-50">
+              <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                Variant_{String.fromCharCode(65 + index)}
+                {tone && (
+                  <span className={cn("flex items-center gap-1.5 px-2.5 py-1 rounded-lg normal-case tracking-normal", TONE_ACTIVE_CLASSES[tone.color])}>
+                    <ToneIconView icon={tone.icon} className="w-3 h-3" />
+                    {tone.label}
+                  </span>
+                )}
+              </span>
+              {variant.status === 'streaming' && <RefreshCw className="w-4 h-4 text-amber-500 animate-spin" />}
+            </div>
+
+            <div className="flex-1 p-6 prose prose-slate prose-sm max-w-none text-slate-800 font-semibold">
+              {variant.status === 'error' ? (
+                <span className="flex items-center gap-2 text-orange-600 font-black not-prose">
+                  <AlertCircle className="w-5 h-5 shrink-0" /> {variant.error ?? 'This variant failed.'}
+                </span>
+              ) : variant.text ? (
+                <Markdown>{variant.text}</Markdown>
+              ) : (
+                <div className="space-y-3 not-prose">
+                  <div className="h-4 bg-slate-100 rounded-full w-3/4 animate-pulse" />
+                  <div className="h-4 bg-slate-100 rounded-full w-full animate-pulse" />
+                  <div className="h-4 bg-slate-100 rounded-full w-2/3 animate-pulse" />
+                </div>
+              )}
+            </div>
+
+            <div className="px-6 py-4 flex justify-end gap-2 border-t border-amber-50">
+              <button
+                onClick={() => onPin(variant)}
+                disabled={!variant.draft}
+                className={cn(
+                  "flex items-center gap-2 text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-xl transition-all disabled:opacity-40",
+                  isPinned ? "bg-amber-500 text-white" : "bg-amber-100 text-amber-700 hover:bg-amber-200"
+                )}
+              >
+                <Pin className="w-4 h-4" /> {isPinned ? 'Pinned' : 'Pin Best'}
+              </button>
+              <button
+                onClick={() => onContinue(variant)}
+                disabled={!variant.text || variant.status === 'streaming'}
+                className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-xl bg-slate-100 text-slate-700 hover:bg-slate-200 transition-all disabled:opacity-40"
+              >
+                <ArrowUpRight className="w-4 h-4" /> Keep Refining
+              </button>
+            </div>
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+}
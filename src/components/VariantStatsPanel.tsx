@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Vote } from 'lucide-react';
+import type { ToneProfile } from '../tones.ts';
+import type { PreferenceStat, VariantStats } from '../types.ts';
+
+function StatList({ title, stats, label }: { title: string; stats: PreferenceStat[]; label: (key: string) => string }) {
+  return (
+    <div className="space-y-3">
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-1">{title}</span>
+      {stats.map((stat) => {
+        const rate = stat.shown ? stat.picked / stat.shown : 0;
+        return (
+          <div key={stat.key} className="space-y-1.5">
+            <div className="flex justify-between text-xs font-bold text-slate-600">
+              <span className="truncate capitalize">{label(stat.key)}</span>
+              <span className="text-slate-400">{stat.picked}/{stat.shown}</span>
+            </div>
+            <div className="h-2 rounded-full bg-amber-50 overflow-hidden">
+              <div className="h-full bg-amber-400 rounded-full" style={{ width: `${Math.round(rate * 100)}%` }} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function VariantStatsPanel({ stats, tones }: { stats: VariantStats; tones: ToneProfile[] }) {
+  if (stats.tones.length === 0) return null;
+
+  return (
+    <div className="bg-white border border-amber-100 rounded-[2.5rem] p-10 shadow-2xl shadow-amber-200/10">
+      <h3 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400 mb-8 flex items-center gap-3">
+        <Vote className="w-6 h-6 text-amber-500" />
+        Team_Preferences
+      </h3>
+      <div className="space-y-8">
+        <StatList
+          title="Picked Tones"
+          stats={stats.tones}
+          label={(key) => tones.find((t) => t.id === key)?.label ?? 'Deleted tone'}
+        />
+        <StatList title="Picked Actions" stats={stats.actions} label={(key) => key} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Failure categories shared by the server (classification, backoff) and the client (messages).
+
+export const ERROR_CATEGORIES = [
+  'rate_limited',
+  'quota_exceeded',
+  'safety_blocked',
+  'auth',
+  'invalid_request',
+  'network',
+  'timeout',
+  'unavailable',
+  'malformed_output',
+  'unknown',
+] as const;
+
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[number];
+
+export const ERROR_MESSAGES: Record<ErrorCategory, string> = {
+  rate_limited: "You're sending requests faster than the team limit allows. Wait a moment, then try again.",
+  quota_exceeded: "The team's model quota is used up. Try a smaller model in Settings, or try again once the quota resets.",
+  safety_blocked: "The model's safety filters blocked this draft. Reword any sensitive passages and try again.",
+  auth: 'The server could not authenticate with the model provider. Ask whoever runs SolDraft to check the API key.',
+  invalid_request: 'The model provider rejected the request. Try a different model or reset the generation settings.',
+  network: "Couldn't reach the server or the model provider. Check your connection and try again.",
+  timeout: 'The model took too long to respond. Try again, or pick a faster model in Settings.',
+  unavailable: 'The model provider is temporarily unavailable. Try again in a minute.',
+  malformed_output: 'The model returned an unreadable structured email. Try again, or switch to free text.',
+  unknown: 'Something went wrong while refining. Please try again.',
+};
+
+// Short names for status lines, e.g. while the server backs off and retries.
+export const ERROR_LABELS: Record<ErrorCategory, string> = {
+  rate_limited: 'Rate limited',
+  quota_exceeded: 'Quota exceeded',
+  safety_blocked: 'Blocked by safety filters',
+  auth: 'Provider key rejected',
+  invalid_request: 'Request rejected',
+  network: 'Connection dropped',
+  timeout: 'Model timed out',
+  unavailable: 'Provider unavailable',
+  malformed_output: 'Unreadable output',
+  unknown: 'Unexpected error',
+};
+
+// Worth retrying automatically: the same request may well succeed a few seconds later.
+const TRANSIENT_CATEGORIES: ReadonlySet<ErrorCategory> = new Set([
+  'rate_limited',
+  'network',
+  'timeout',
+  'unavailable',
+  'malformed_output',
+]);
+
+export function isTransientError(category: ErrorCategory): boolean {
+  return TRANSIENT_CATEGORIES.has(category);
+}
+
+export function isErrorCategory(value: unknown): value is ErrorCategory {
+  return ERROR_CATEGORIES.includes(value as ErrorCategory);
+}
+
+/** An error that already knows its category; thrown by providers and by the client's API helpers. */
+export class CategorizedError extends Error {
+  constructor(
+    readonly category: ErrorCategory,
+    message: string = ERROR_MESSAGES[category],
+    // How long the other side asked us to wait before trying again, when it said.
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'CategorizedError';
+  }
+}
+
+/** What to tell the user about a failed request. Uncategorized server errors keep their own message. */
+export function describeError(err: unknown): string {
+  if (!(err instanceof CategorizedError)) return ERROR_MESSAGES.unknown;
+  if (err.category === 'unknown') return err.message || ERROR_MESSAGES.unknown;
+  const wait = err.retryAfterMs && Math.ceil(err.retryAfterMs / 1000);
+  return wait ? `${ERROR_MESSAGES[err.category]} (about ${wait}s)` : ERROR_MESSAGES[err.category];
+}
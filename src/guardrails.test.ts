@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findAvoidWordMatches, stem } from './guardrails.ts';
+
+describe('stem', () => {
+  it('gives inflections of a word the same stem', () => {
+    const families = [
+      ['apology', 'apologies', 'apologize', 'apologized'],
+      ['address', 'addressed', 'addresses', 'addressing'],
+      ['process', 'processed', 'processes', 'processing'],
+      ['sorry', 'sorrier'],
+      ['circle', 'circled', 'circles', 'circling'],
+    ];
+    for (const [base, ...forms] of families) {
+      for (const form of forms) assert.equal(stem(form), stem(base), `${form} vs ${base}`);
+    }
+  });
+
+  it('keeps unrelated words apart', () => {
+    assert.notEqual(stem('better'), stem('betting'));
+    assert.notEqual(stem('less'), stem('le'));
+    assert.notEqual(stem('use'), stem('us'));
+    assert.notEqual(stem('new'), stem('news'));
+    assert.deepEqual(findAvoidWordMatches('Let us know if you can use it.', ['use']).map((m) => m.start), [23]);
+    assert.deepEqual(findAvoidWordMatches('Any news on the new plan?', ['new']).map((m) => m.start), [16]);
+  });
+});
+
+describe('findAvoidWordMatches', () => {
+  it('matches single words on their stem', () => {
+    const text = 'Sorry again, and apologies for the delay.';
+    assert.deepEqual(
+      findAvoidWordMatches(text, ['apology', 'sorry']).map((m) => text.slice(m.start, m.end)),
+      ['Sorry', 'apologies'],
+    );
+  });
+
+  it('matches hyphenated terms literally', () => {
+    const text = 'A quick Follow-up: let us circle-back on the follow up.';
+    const matches = findAvoidWordMatches(text, ['follow-up', 'circle-back']);
+    assert.deepEqual(
+      matches.map((m) => [m.word, text.slice(m.start, m.end)]),
+      [['follow-up', 'Follow-up'], ['circle-back', 'circle-back']],
+    );
+  });
+
+  it('matches phrases across any whitespace but only on word boundaries', () => {
+    const text = 'Just touch\n base, then retouch base.';
+    assert.deepEqual(
+      findAvoidWordMatches(text, ['touch base']).map((m) => text.slice(m.start, m.end)),
+      ['touch\n base'],
+    );
+  });
+
+  it('does not flag words that only share a prefix', () => {
+    assert.deepEqual(findAvoidWordMatches('Betting on a better plan.', ['better']).map((m) => m.start), [13]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Post-generation checks, shared by the server (auto-retry) and the client (highlighting).
+
+export const MAX_GUARDRAIL_RETRIES = 3;
+
+// Outputs up to this multiple of the draft's word count still count as "concise"; presets may pick another limit.
+export const DEFAULT_LENGTH_RATIO = 1.2;
+export const MIN_LENGTH_RATIO = 0.5;
+export const MAX_LENGTH_RATIO = 3;
+export const LENGTH_RATIO_OPTIONS = [1, 1.2, 1.5, 2];
+
+export function isValidLengthRatio(value: unknown): value is number {
+  return typeof value === 'number' && value >= MIN_LENGTH_RATIO && value <= MAX_LENGTH_RATIO;
+}
+
+export interface GuardrailMatch {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface GuardrailReport {
+  avoidWordMatches: GuardrailMatch[];
+  draftWords: number;
+  outputWords: number;
+  tooLong: boolean;
+  passed: boolean;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}']+/gu;
+// No bare "er": "better" and "betting" would share a stem. "ier" still catches "sorrier".
+const SUFFIXES = ['ingly', 'edly', 'ing', 'ier', 'ies', 'ied', 'es', 'ed', 'ly', 's'];
+
+/** Crude suffix stripping so "apologies", "apologize" and "apology" don't need listing separately. */
+export function stem(word: string): string {
+  let w = word.toLowerCase().replace(/'s$/, '');
+  for (const suffix of SUFFIXES) {
+    // "address" and "process" end in "ss", not a plural "s".
+    if (suffix === 's' && w.endsWith('ss')) break;
+    // Short words keep their "s": "news" is not "new".
+    if (w.endsWith(suffix) && w.length - suffix.length >= (suffix === 's' ? 4 : 3)) {
+      w = w.slice(0, -suffix.length);
+      break;
+    }
+  }
+  // Likewise "use" keeps its "e", or it would flag the pronoun "us".
+  return w.replace(/(?<=....)[ey]$/, '').replace(/(?<=...)i[sz]$/, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function countWords(text: string): number {
+  return text.match(WORD_PATTERN)?.length ?? 0;
+}
+
+/**
+ * Finds avoid-words in `text`. Single words match whole words, case-insensitively, on a shared stem;
+ * phrases and anything else with non-letters, like "follow-up", match literally (case-insensitive,
+ * any whitespace between words).
+ */
+export function findAvoidWordMatches(text: string, avoidWords: string[]): GuardrailMatch[] {
+  const matches: GuardrailMatch[] = [];
+  const singles = new Map<string, string>();
+
+  for (const word of avoidWords) {
+    const trimmed = word.trim();
+    if (!trimmed) continue;
+    if (!/^[\p{L}\p{N}']+$/u.test(trimmed)) {
+      const phrase = trimmed.split(/\s+/).map(escapeRegExp).join('\\s+');
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}'])${phrase}(?![\\p{L}\\p{N}'])`, 'giu');
+      for (const match of text.matchAll(pattern)) {
+        matches.push({ word: trimmed, start: match.index, end: match.index + match[0].length });
+      }
+    } else {
+      singles.set(stem(trimmed), trimmed);
+    }
+  }
+
+  if (singles.size > 0) {
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const word = singles.get(stem(match[0]));
+      if (word) matches.push({ word, start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/** `measured` is the part of the output held to the length rule; it defaults to the whole output. */
+export function checkGuardrails(
+  output: string,
+  draft: string,
+  avoidWords: string[],
+  measured = output,
+  maxLengthRatio = DEFAULT_LENGTH_RATIO,
+): GuardrailReport {
+  const avoidWordMatches = findAvoidWordMatches(output, avoidWords);
+  const draftWords = countWords(draft);
+  const outputWords = countWords(measured);
+  const tooLong = draftWords > 0 && outputWords > Math.ceil(draftWords * maxLengthRatio);
+
+  return {
+    avoidWordMatches,
+    draftWords,
+    outputWords,
+    tooLong,
+    passed: avoidWordMatches.length === 0 && !tooLong,
+  };
+}
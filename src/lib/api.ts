@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  ApiErrorBody,
+  DraftRecord,
+  FollowUpRequest,
+  RefineRequest,
+  RefineStreamEvent,
+  VariantPickRequest,
+  VariantStats,
+} from '../types.ts';
+import { getUserId } from './user.ts';
+import { CategorizedError, ERROR_MESSAGES, isErrorCategory, type ErrorCategory } from '../errors.ts';
+import type { GuardrailReport } from '../guardrails.ts';
+import type { GenerationSettings, ModelCatalog } from '../models.ts';
+import type { GuardrailPreset, GuardrailPresetInput } from '../presets.ts';
+import { createRateLimiter } from '../rateLimit.ts';
+import type { ToneProfile, ToneProfileInput } from '../tones.ts';
+import type { ModelPrice, UsageReport } from '../usage.ts';
+
+const USER_HEADER = 'X-SolDraft-User';
+
+// Stops a burst of clicks (two full variant runs, say) before it reaches the server's per-client limit.
+const generationLimiter = createRateLimiter({ limit: 8, windowMs: 10_000 });
+
+/** The error for a failed response: the server's own category and message when it sent them. */
+async function responseError(res: Response): Promise<CategorizedError> {
+  const data = (await res.json().catch(() => null)) as ApiErrorBody | null;
+  const category = isErrorCategory(data?.category) ? data.category : 'unknown';
+  const retryAfterMs = data?.retryAfterSeconds === undefined ? undefined : data.retryAfterSeconds * 1000;
+  return new CategorizedError(category, data?.error || `Request failed with status ${res.status}`, retryAfterMs);
+}
+
+async function request<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      [USER_HEADER]: getUserId(),
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) throw await responseError(res);
+  return (res.status === 204 ? null : await res.json().catch(() => null)) as T;
+}
+
+export type RefineResult = Extract<RefineStreamEvent, { type: 'done' }>;
+
+interface StreamHandlers {
+  signal?: AbortSignal;
+  onChunk: (text: string) => void;
+  onRetry?: (attempt: number, report: GuardrailReport) => void;
+  onBackoff?: (attempt: number, delayMs: number, category: ErrorCategory) => void;
+}
+
+async function streamEvents(
+  url: string,
+  body: unknown,
+  { signal, onChunk, onRetry, onBackoff }: StreamHandlers,
+): Promise<RefineResult> {
+  const waitMs = generationLimiter.take('generate');
+  if (waitMs > 0) throw new CategorizedError('rate_limited', ERROR_MESSAGES.rate_limited, waitMs);
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { [USER_HEADER]: getUserId(), 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new CategorizedError('network');
+  }
+  if (!res.ok || !res.body) throw await responseError(res);
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) continue;
+
+      const event = JSON.parse(line) as RefineStreamEvent;
+      if (event.type === 'chunk') onChunk(event.text);
+      else if (event.type === 'retry') onRetry?.(event.attempt, event.report);
+      else if (event.type === 'backoff') onBackoff?.(event.attempt, event.delayMs, event.category);
+      else if (event.type === 'error') throw new CategorizedError(event.category, event.error);
+      else return event;
+    }
+  }
+  throw new CategorizedError('network', 'The refinement stream ended unexpectedly.');
+}
+
+/**
+ * Streams a refinement, calling `onChunk` with each piece of text as it arrives.
+ * `onRetry` fires when the server rejects an attempt on guardrails and starts over; `onBackoff` when it
+ * restarts one after a transient provider failure. Failures reject with a `CategorizedError`.
+ * Aborting `signal` rejects with an AbortError; any text already passed to `onChunk` is kept by the caller.
+ */
+export function streamRefine(body: RefineRequest, handlers: StreamHandlers): Promise<RefineResult> {
+  return streamEvents('/api/refine', body, handlers);
+}
+
+/** Streams a follow-up turn on a saved output; behaves like `streamRefine`. */
+export function streamFollowUp(body: FollowUpRequest, handlers: StreamHandlers): Promise<RefineResult> {
+  return streamEvents('/api/refine/follow-up', body, handlers);
+}
+
+export function fetchDrafts(query = ''): Promise<DraftRecord[]> {
+  const search = query.trim() ? `?q=${encodeURIComponent(query.trim())}` : '';
+  return request<DraftRecord[]>('GET', `/api/drafts${search}`);
+}
+
+export function fetchThread(id: number): Promise<DraftRecord[]> {
+  return request<DraftRecord[]>('GET', `/api/drafts/${id}/thread`);
+}
+
+export function deleteDraft(id: number): Promise<void> {
+  return request<void>('DELETE', `/api/drafts/${id}`);
+}
+
+export function fetchTones(): Promise<ToneProfile[]> {
+  return request<ToneProfile[]>('GET', '/api/tones');
+}
+
+export function createTone(input: ToneProfileInput): Promise<ToneProfile> {
+  return request<ToneProfile>('POST', '/api/tones', input);
+}
+
+export function updateTone(id: string, input: ToneProfileInput): Promise<ToneProfile> {
+  return request<ToneProfile>('PUT', `/api/tones/${encodeURIComponent(id)}`, input);
+}
+
+export function deleteTone(id: string): Promise<void> {
+  return request<void>('DELETE', `/api/tones/${encodeURIComponent(id)}`);
+}
+
+export function recordVariantPick(pick: VariantPickRequest): Promise<void> {
+  return request<void>('POST', '/api/variants/picks', pick);
+}
+
+export function fetchVariantStats(): Promise<VariantStats> {
+  return request<VariantStats>('GET', '/api/variants/stats');
+}
+
+export function fetchModels(): Promise<ModelCatalog> {
+  return request<ModelCatalog>('GET', '/api/models');
+}
+
+export function fetchSettings(): Promise<GenerationSettings> {
+  return request<GenerationSettings>('GET', '/api/settings');
+}
+
+export function saveSettings(settings: GenerationSettings): Promise<GenerationSettings> {
+  return request<GenerationSettings>('PUT', '/api/settings', settings);
+}
+
+export function fetchPresets(): Promise<GuardrailPreset[]> {
+  return request<GuardrailPreset[]>('GET', '/api/presets');
+}
+
+export function createPreset(input: GuardrailPresetInput): Promise<GuardrailPreset> {
+  return request<GuardrailPreset>('POST', '/api/presets', input);
+}
+
+export function updatePreset(id: string, input: GuardrailPresetInput): Promise<GuardrailPreset> {
+  return request<GuardrailPreset>('PUT', `/api/presets/${encodeURIComponent(id)}`, input);
+}
+
+export function deletePreset(id: string): Promise<void> {
+  return request<void>('DELETE', `/api/presets/${encodeURIComponent(id)}`);
+}
+
+export function importPresets(presets: GuardrailPresetInput[]): Promise<GuardrailPreset[]> {
+  return request<GuardrailPreset[]>('POST', '/api/presets/import', { presets });
+}
+
+export function fetchUsage(days: number): Promise<UsageReport> {
+  return request<UsageReport>('GET', `/api/usage?days=${days}`);
+}
+
+export function fetchModelPrices(): Promise<ModelPrice[]> {
+  return request<ModelPrice[]>('GET', '/api/usage/prices');
+}
+
+export function saveModelPrices(prices: ModelPrice[]): Promise<ModelPrice[]> {
+  return request<ModelPrice[]>('PUT', '/api/usage/prices', { prices });
+}
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { diffWords, mergeDiff, type DiffSegment } from './diff.ts';
+
+function changes(segments: DiffSegment[]) {
+  return segments.flatMap((s) => (s.type === 'change' ? [[s.removed, s.added]] : []));
+}
+
+function allIds(segments: DiffSegment[]): Set<number> {
+  return new Set(segments.flatMap((s) => (s.type === 'change' ? [s.id] : [])));
+}
+
+describe('diffWords', () => {
+  it('pairs each removed run with its replacement', () => {
+    const segments = diffWords('Hi team, can we meet on Monday?', 'Hi all, can we meet on Tuesday?');
+    assert.deepEqual(changes(segments), [['team, ', 'all, '], ['Monday?', 'Tuesday?']]);
+  });
+
+  it('merges back to either text', () => {
+    const original = 'Thanks for the update.\n\nI will review it tomorrow.';
+    const revised = 'Thanks for the quick update.\nI will review it today.';
+    const segments = diffWords(original, revised);
+    assert.equal(mergeDiff(segments, allIds(segments)), revised);
+    assert.equal(mergeDiff(segments, new Set()).replace(/\s+/g, ' '), original.replace(/\s+/g, ' '));
+  });
+
+  it('handles identical and empty texts', () => {
+    assert.deepEqual(diffWords('Same text.', 'Same text.'), [{ type: 'equal', text: 'Same text.' }]);
+    assert.deepEqual(diffWords('', 'New'), [{ type: 'change', id: 0, removed: '', added: 'New' }]);
+    assert.deepEqual(diffWords('', ''), []);
+  });
+
+  it('falls back to lines when the texts are too long for a word diff', () => {
+    // 500 lines of 20 words: too many words for the table, few enough lines.
+    const line = (i: number) => `Line ${i} ${'has words '.repeat(9)}in.\n`;
+    const original = Array.from({ length: 500 }, (_, i) => line(i)).join('');
+    const revised = original.replace(line(10), 'A new first change.\n').replace(line(490), 'A new last change.\n');
+
+    const segments = diffWords(original, revised);
+    assert.equal(mergeDiff(segments, allIds(segments)), revised);
+    assert.equal(mergeDiff(segments, new Set()), original);
+    assert.deepEqual(changes(segments), [
+      [line(10), 'A new first change.\n'],
+      [line(490), 'A new last change.\n'],
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type DiffSegment =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; id: number; removed: string; added: string };
+
+// The LCS table holds (words + 1)² cells of 4 bytes; past this (16 MB) the diff compares lines instead.
+const MAX_LCS_CELLS = 4_000_000;
+
+// Words keep their trailing whitespace so re-joining tokens reproduces the text exactly.
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+function tokenizeLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+/g) ?? [];
+}
+
+// Tokens compare on the word alone so a changed line break does not mark the word as edited.
+function key(token: string): string {
+  return token.trimEnd();
+}
+
+/** lcs[i * (m + 1) + j] = length of the longest common subsequence of a[i..] and b[j..]; null when too large. */
+function lcsTable(a: string[], b: string[]): Uint32Array | null {
+  const n = a.length;
+  const m = b.length;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) return null;
+
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = key(a[i]) === key(b[j])
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+  return lcs;
+}
+
+/**
+ * Word-level diff of `original` against `revised`, grouped into equal runs and change hunks.
+ * Each hunk pairs the removed text with the text that replaced it (either may be empty).
+ * Very long texts fall back to comparing lines, and past that to a single hunk for the changed middle.
+ */
+export function diffWords(original: string, revised: string): DiffSegment[] {
+  const oldTokens = tokenize(original);
+  const newTokens = tokenize(revised);
+
+  // The shared opening and sign-off need no table.
+  let prefix = 0;
+  while (prefix < oldTokens.length && prefix < newTokens.length && key(oldTokens[prefix]) === key(newTokens[prefix])) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldTokens.length - prefix &&
+    suffix < newTokens.length - prefix &&
+    key(oldTokens[oldTokens.length - 1 - suffix]) === key(newTokens[newTokens.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  let a = oldTokens.slice(prefix, oldTokens.length - suffix);
+  let b = newTokens.slice(prefix, newTokens.length - suffix);
+  let lcs = lcsTable(a, b);
+  if (!lcs) {
+    a = tokenizeLines(a.join(''));
+    b = tokenizeLines(b.join(''));
+    lcs = lcsTable(a, b);
+  }
+  const n = a.length;
+  const m = b.length;
+
+  const segments: DiffSegment[] = [];
+  let removed = '';
+  let added = '';
+  let equal = '';
+  let nextId = 0;
+
+  const flushChange = () => {
+    if (!removed && !added) return;
+    segments.push({ type: 'change', id: nextId++, removed, added });
+    removed = '';
+    added = '';
+  };
+  const flushEqual = () => {
+    if (!equal) return;
+    segments.push({ type: 'equal', text: equal });
+    equal = '';
+  };
+
+  equal = newTokens.slice(0, prefix).join('');
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (lcs && i < n && j < m && key(a[i]) === key(b[j])) {
+      flushChange();
+      // Prefer the revised token so its whitespace (line breaks, paragraphing) wins.
+      equal += b[j];
+      i++;
+      j++;
+    } else if (j < m && (i === n || !lcs || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+      flushEqual();
+      added += b[j++];
+    } else {
+      flushEqual();
+      removed += a[i++];
+    }
+  }
+  flushChange();
+  equal += newTokens.slice(newTokens.length - suffix).join('');
+  flushEqual();
+
+  return segments;
+}
+
+/** Rebuilds the email, taking the revised text for accepted hunks and the original text otherwise. */
+export function mergeDiff(segments: DiffSegment[], accepted: ReadonlySet<number>): string {
+  return segments
+    .map((segment) => {
+      if (segment.type === 'equal') return segment.text;
+      return accepted.has(segment.id) ? segment.added : segment.removed;
+    })
+    .join('');
+}
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown from 'react-markdown';
+
+// Inline styles survive pasting into Gmail and Outlook; stylesheet classes do not.
+const EMAIL_STYLE = 'font-family: Arial, Helvetica, sans-serif; font-size: 14px; line-height: 1.5; color: #1e293b;';
+
+export function markdownToHtml(markdown: string): string {
+  return `<div style="${EMAIL_STYLE}">${renderToStaticMarkup(createElement(Markdown, null, markdown))}</div>`;
+}
+
+/** A readable plain-text version of the Markdown: emphasis and heading markers go, bullets stay. */
+export function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/(^|[^*\w])[*_]([^*_\n]+)[*_](?=[^*\w]|$)/g, '$1$2')
+    .replace(/^\s*[*+]\s+/gm, '- ')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/`([^`]+)`/g, '$1')
+    .trim();
+}
+
+/** Writes text/html with a text/plain fallback; falls back to plain text where ClipboardItem is missing. */
+export async function copyRichText(markdown: string): Promise<void> {
+  const plain = markdownToPlainText(markdown);
+  if (typeof ClipboardItem === 'undefined') {
+    await navigator.clipboard.writeText(plain);
+    return;
+  }
+  await navigator.clipboard.write([
+    new ClipboardItem({
+      'text/html': new Blob([markdownToHtml(markdown)], { type: 'text/html' }),
+      'text/plain': new Blob([plain], { type: 'text/plain' }),
+    }),
+  ]);
+}
+
+function base64Utf8(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  // RFC 2045 caps encoded lines at 76 characters.
+  return btoa(binary).replace(/.{1,76}/g, '$&\r\n').trimEnd();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64Utf8(value).replace(/\r\n/g, '')}?=`;
+}
+
+/** A draft (X-Unsent) RFC 5322 message with plain-text and HTML alternatives. */
+export function buildEml(subject: string, markdown: string): string {
+  const boundary = `soldraft-${crypto.randomUUID()}`;
+  return [
+    'MIME-Version: 1.0',
+    `Date: ${new Date().toUTCString()}`,
+    `Subject: ${encodeHeader(subject)}`,
+    'X-Unsent: 1',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Utf8(markdownToPlainText(markdown)),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Utf8(`<!doctype html><html><body>${markdownToHtml(markdown)}</body></html>`),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadEml(subject: string, markdown: string) {
+  const blob = new Blob([buildEml(subject, markdown)], { type: 'message/rfc822' });
+  downloadBlob(blob, `${subject.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-').slice(0, 60) || 'soldraft-email'}.eml`);
+}
+
+export function downloadJson(data: unknown, filename: string) {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+}
+
+export function mailtoUrl(subject: string, markdown: string): string {
+  const params = [
+    subject && `subject=${encodeURIComponent(subject)}`,
+    `body=${encodeURIComponent(markdownToPlainText(markdown))}`,
+  ].filter(Boolean);
+  return `mailto:?${params.join('&')}`;
+}
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Scores `text` against `query` when every query character appears in order, case-insensitively;
+ * null otherwise. Matches at word starts and runs of consecutive characters score higher.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  if (!q) return 0;
+  const t = text.toLowerCase();
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of q) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return null;
+    if (index === previous + 1) score += 3;
+    if (index === 0 || /[\s\-_/:]/.test(t[index - 1])) score += 2;
+    score += 1;
+    previous = index;
+    from = index + 1;
+  }
+  // Prefer shorter texts among equally good matches.
+  return score - t.length * 0.01;
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// A tiny rehype plugin: wraps ranges found by `findMatches` in <mark> elements, one text node at a time.
+
+interface TextNode {
+  type: 'text';
+  value: string;
+}
+
+interface ElementNode {
+  type: 'element';
+  tagName: string;
+  properties: Record<string, unknown>;
+  children: Node[];
+}
+
+type Node = TextNode | ElementNode | { type: string; children?: Node[] };
+
+type MatchFinder = (text: string) => { start: number; end: number; word: string }[];
+
+function splitText(node: TextNode, findMatches: MatchFinder, className: string): Node[] {
+  const matches = findMatches(node.value);
+  if (matches.length === 0) return [node];
+
+  const parts: Node[] = [];
+  let cursor = 0;
+  for (const match of matches) {
+    if (match.start < cursor) continue;
+    if (match.start > cursor) parts.push({ type: 'text', value: node.value.slice(cursor, match.start) });
+    parts.push({
+      type: 'element',
+      tagName: 'mark',
+      properties: { className: [className], title: `Avoid: ${match.word}` },
+      children: [{ type: 'text', value: node.value.slice(match.start, match.end) }],
+    });
+    cursor = match.end;
+  }
+  if (cursor < node.value.length) parts.push({ type: 'text', value: node.value.slice(cursor) });
+  return parts;
+}
+
+function visit(node: Node, findMatches: MatchFinder, className: string) {
+  if (!('children' in node) || !node.children) return;
+  node.children = node.children.flatMap((child) => {
+    if (child.type === 'text') return splitText(child as TextNode, findMatches, className);
+    visit(child, findMatches, className);
+    return [child];
+  });
+}
+
+export function rehypeHighlightMatches(options: { findMatches: MatchFinder; className: string }) {
+  return (tree: Node) => visit(tree, options.findMatches, options.className);
+}
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Keyboard shortcuts. A combo is written "Mod+Shift+Enter", where Mod is Cmd on macOS and Ctrl elsewhere;
+// keys are named by physical position, so Alt+C on a Mac is still "Alt+C" rather than "ç".
+
+const STORAGE_KEY = 'soldraft.shortcuts';
+
+export type ShortcutId =
+  | 'refine'
+  | 'rephrase'
+  | 'improve'
+  | 'stop'
+  | 'nextTone'
+  | 'previousTone'
+  | 'copyOutput'
+  | 'openHistory'
+  | 'commandPalette'
+  | 'showShortcuts';
+
+export interface ShortcutDefinition {
+  id: ShortcutId;
+  label: string;
+  defaultCombo: string;
+}
+
+export type ShortcutBindings = Record<ShortcutId, string>;
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { id: 'refine', label: 'Refine draft', defaultCombo: 'Mod+Enter' },
+  { id: 'improve', label: 'Improve draft', defaultCombo: 'Mod+Shift+Enter' },
+  { id: 'rephrase', label: 'Rephrase draft', defaultCombo: 'Mod+Alt+Enter' },
+  { id: 'stop', label: 'Stop generating', defaultCombo: 'Escape' },
+  { id: 'nextTone', label: 'Next tone', defaultCombo: 'Mod+]' },
+  { id: 'previousTone', label: 'Previous tone', defaultCombo: 'Mod+[' },
+  { id: 'copyOutput', label: 'Copy output', defaultCombo: 'Mod+Shift+X' },
+  { id: 'openHistory', label: 'Search history', defaultCombo: 'Mod+Shift+H' },
+  { id: 'commandPalette', label: 'Command palette', defaultCombo: 'Mod+K' },
+  { id: 'showShortcuts', label: 'Keyboard shortcuts', defaultCombo: 'Mod+/' },
+];
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'CapsLock']);
+const CODE_KEYS: Record<string, string> = {
+  BracketLeft: '[',
+  BracketRight: ']',
+  Slash: '/',
+  Backslash: '\\',
+  Comma: ',',
+  Period: '.',
+  Semicolon: ';',
+  Quote: "'",
+  Minus: '-',
+  Equal: '=',
+  Backquote: '`',
+  Space: 'Space',
+};
+const MAC_SYMBOLS: Record<string, string> = {
+  Mod: '⌘',
+  Ctrl: '⌃',
+  Alt: '⌥',
+  Shift: '⇧',
+  Enter: '↵',
+  Escape: 'Esc',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+};
+
+export const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+export function defaultBindings(): ShortcutBindings {
+  return Object.fromEntries(SHORTCUTS.map((s) => [s.id, s.defaultCombo])) as ShortcutBindings;
+}
+
+/**
+ * The combo a key press spells, or null while only modifiers are held. AltGr presses are null too:
+ * Windows reports AltGr as Ctrl+Alt, so "ć" on a Polish keyboard would otherwise spell Mod+Alt+C.
+ */
+export function comboFromEvent(event: KeyboardEvent): string | null {
+  if (event.getModifierState('AltGraph')) return null;
+  let key: string;
+  if (/^Key[A-Z]$/.test(event.code)) key = event.code.slice(3);
+  else if (/^Digit\d$/.test(event.code)) key = event.code.slice(5);
+  else if (CODE_KEYS[event.code]) key = CODE_KEYS[event.code];
+  else if (MODIFIER_KEYS.has(event.key)) return null;
+  else key = event.key;
+
+  const parts: string[] = [];
+  if (IS_MAC ? event.metaKey : event.ctrlKey) parts.push('Mod');
+  if (IS_MAC && event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  return [...parts, key].join('+');
+}
+
+/** Whether a combo should still fire while the user is typing: plain keys would swallow their text. */
+export function worksWhileTyping(combo: string): boolean {
+  return /^(?:Mod|Ctrl|Alt)\+/.test(combo) || combo === 'Escape' || /^F\d+$/.test(combo);
+}
+
+export function formatCombo(combo: string): string {
+  const parts = combo.split('+');
+  return IS_MAC
+    ? parts.map((part) => MAC_SYMBOLS[part] ?? part).join('')
+    : parts.map((part) => (part === 'Mod' ? 'Ctrl' : part)).join('+');
+}
+
+export function findShortcut(bindings: ShortcutBindings, combo: string): ShortcutId | null {
+  return SHORTCUTS.find((s) => bindings[s.id] === combo)?.id ?? null;
+}
+
+/** Saved customisations over the defaults; anything unreadable falls back to the default. */
+export function loadBindings(): ShortcutBindings {
+  const bindings = defaultBindings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+    for (const { id } of SHORTCUTS) {
+      if (typeof saved[id] === 'string' && saved[id]) bindings[id] = saved[id];
+    }
+  } catch {
+    // A corrupt entry just means the defaults.
+  }
+  return bindings;
+}
+
+/** Stores only the bindings that differ from the defaults, so later default changes still reach users. */
+export function saveBindings(bindings: ShortcutBindings) {
+  const changed = SHORTCUTS.filter((s) => bindings[s.id] !== s.defaultCombo).map((s) => [s.id, bindings[s.id]]);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(changed)));
+}
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Briefcase,
+  Coffee,
+  FileCode,
+  Flame,
+  Heart,
+  Megaphone,
+  MessageSquare,
+  Rocket,
+  ShieldAlert,
+  Siren,
+  Smile,
+  Target,
+  type LucideIcon,
+} from 'lucide-react';
+import type { ToneColor, ToneIcon } from '../tones.ts';
+
+const ICONS: Record<ToneIcon, LucideIcon> = {
+  'target': Target,
+  'briefcase': Briefcase,
+  'coffee': Coffee,
+  'smile': Smile,
+  'siren': Siren,
+  'megaphone': Megaphone,
+  'file-code': FileCode,
+  'shield-alert': ShieldAlert,
+  'message-square': MessageSquare,
+  'rocket': Rocket,
+  'flame': Flame,
+  'heart': Heart,
+};
+
+// Tailwind needs the full class names spelled out, so colours map to static strings.
+export const TONE_ACTIVE_CLASSES: Record<ToneColor, string> = {
+  amber: 'bg-amber-600 text-white shadow-lg shadow-amber-200',
+  indigo: 'bg-indigo-600 text-white shadow-lg shadow-indigo-200',
+  emerald: 'bg-emerald-500 text-white shadow-lg shadow-emerald-100',
+  orange: 'bg-orange-500 text-white shadow-lg shadow-orange-100',
+  rose: 'bg-rose-500 text-white shadow-lg shadow-rose-100',
+  sky: 'bg-sky-500 text-white shadow-lg shadow-sky-100',
+  violet: 'bg-violet-600 text-white shadow-lg shadow-violet-200',
+  slate: 'bg-slate-700 text-white shadow-lg shadow-slate-200',
+};
+
+export const TONE_SWATCH_CLASSES: Record<ToneColor, string> = {
+  amber: 'bg-amber-600',
+  indigo: 'bg-indigo-600',
+  emerald: 'bg-emerald-500',
+  orange: 'bg-orange-500',
+  rose: 'bg-rose-500',
+  sky: 'bg-sky-500',
+  violet: 'bg-violet-600',
+  slate: 'bg-slate-700',
+};
+
+export function ToneIconView({ icon, className = 'w-4 h-4' }: { icon: ToneIcon; className?: string }) {
+  const Icon = ICONS[icon] ?? Target;
+  return <Icon className={className} />;
+}
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const STORAGE_KEY = 'soldraft.userId';
+
+let cached: string | null = null;
+
+/** A random id generated once per browser; the server keys per-user data on it. */
+export function getUserId(): string {
+  if (!cached) {
+    cached = localStorage.getItem(STORAGE_KEY);
+    if (!cached) {
+      cached = crypto.randomUUID();
+      localStorage.setItem(STORAGE_KEY, cached);
+    }
+  }
+  return cached;
+}
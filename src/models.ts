@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Model choice and sampling parameters; `null` leaves a parameter at the model's default.
+
+export const MAX_TEMPERATURE = 2;
+export const MAX_OUTPUT_TOKENS = 65536;
+
+/** What the configured LLM provider offers; served by GET /api/models. */
+export interface ModelCatalog {
+  provider: string;
+  models: string[];
+  defaultModel: string;
+}
+
+export interface GenerationSettings {
+  model: string;
+  temperature: number | null;
+  maxOutputTokens: number | null;
+  seed: number | null;
+}
+
+export function defaultSettings(model: string): GenerationSettings {
+  return { model, temperature: null, maxOutputTokens: null, seed: null };
+}
+
+/** Validates settings from a request body; `models` is the provider's catalog. */
+export function parseGenerationSettings(value: unknown, models: readonly string[]): GenerationSettings | null {
+  if (!value || typeof value !== 'object') return null;
+  const { model, temperature, maxOutputTokens, seed } = value as Record<string, unknown>;
+
+  if (typeof model !== 'string' || !models.includes(model)) return null;
+  if (temperature !== null && (typeof temperature !== 'number' || temperature < 0 || temperature > MAX_TEMPERATURE)) return null;
+  if (maxOutputTokens !== null && (!Number.isInteger(maxOutputTokens) || (maxOutputTokens as number) < 1 || (maxOutputTokens as number) > MAX_OUTPUT_TOKENS)) return null;
+  if (seed !== null && !Number.isInteger(seed)) return null;
+
+  return {
+    model,
+    temperature: temperature as number | null,
+    maxOutputTokens: maxOutputTokens as number | null,
+    seed: seed as number | null,
+  };
+}
+
+/** Short label shown next to each output, e.g. "gemini-2.5-pro · T 0.4 · 512 tok · seed 7". */
+export function describeSettings(settings: GenerationSettings): string {
+  return [
+    settings.model,
+    settings.temperature !== null && `T ${settings.temperature}`,
+    settings.maxOutputTokens !== null && `${settings.maxOutputTokens} tok`,
+    settings.seed !== null && `seed ${settings.seed}`,
+  ].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isValidLengthRatio } from './guardrails.ts';
+
+// Named guardrail bundles shared by the whole team, e.g. "Exec comms" or "Customer-facing".
+
+export const MAX_PRESET_NAME_LENGTH = 40;
+export const MAX_PRESET_AVOID_WORDS = 50;
+export const PRESET_EXPORT_VERSION = 1;
+
+export interface GuardrailPresetInput {
+  name: string;
+  // Preferred tone profile id; ignored when that tone no longer exists.
+  tone: string;
+  avoidWords: string[];
+  maxLengthRatio: number;
+}
+
+export interface GuardrailPreset extends GuardrailPresetInput {
+  id: string;
+  updatedAt: string;
+}
+
+/** Shape of an exported presets file. */
+export interface GuardrailPresetExport {
+  version: number;
+  presets: GuardrailPresetInput[];
+}
+
+export function parseGuardrailPresetInput(value: unknown): GuardrailPresetInput | null {
+  if (!value || typeof value !== 'object') return null;
+  const { name, tone, avoidWords, maxLengthRatio } = value as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_PRESET_NAME_LENGTH) return null;
+  if (typeof tone !== 'string' || !tone) return null;
+  if (!Array.isArray(avoidWords) || avoidWords.length > MAX_PRESET_AVOID_WORDS) return null;
+  if (!avoidWords.every((w) => typeof w === 'string')) return null;
+  if (!isValidLengthRatio(maxLengthRatio)) return null;
+
+  const words = avoidWords.map((w: string) => w.trim().toLowerCase()).filter(Boolean);
+  return { name: name.trim(), tone, avoidWords: [...new Set(words)], maxLengthRatio };
+}
+
+/** Accepts an exported file or a bare array of presets; null if any entry is invalid. */
+export function parseGuardrailPresetExport(value: unknown): GuardrailPresetInput[] | null {
+  const entries = Array.isArray(value) ? value : (value as Partial<GuardrailPresetExport> | null)?.presets;
+  if (!Array.isArray(entries) || entries.length === 0) return null;
+  const presets = entries.map(parseGuardrailPresetInput);
+  return presets.every((preset) => preset !== null) ? presets as GuardrailPresetInput[] : null;
+}
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Sliding-window request limiter, used per client address on the server and per tab in the client.
+
+export interface RateLimiter {
+  /** Records `cost` requests for `key` if they fit; returns 0 when allowed, else milliseconds until they would. */
+  take(key: string, cost?: number): number;
+}
+
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const hits = new Map<string, number[]>();
+  let sweptAt = Date.now();
+
+  return {
+    take(key, cost = 1) {
+      const now = Date.now();
+      // Once a window, drop keys with no recent hits so one-off callers don't pile up forever.
+      if (now - sweptAt >= windowMs) {
+        for (const [k, times] of hits) {
+          if (times[times.length - 1] <= now - windowMs) hits.delete(k);
+        }
+        sweptAt = now;
+      }
+      const recent = (hits.get(key) ?? []).filter((t) => t > now - windowMs);
+      if (recent.length + cost > limit) {
+        hits.set(key, recent);
+        // The oldest hits expire first; wait until enough of them have.
+        const freeAt = recent[Math.min(recent.length - 1, recent.length + cost - limit - 1)] ?? now;
+        return Math.max(1, freeAt + windowMs - now);
+      }
+      hits.set(key, [...recent, ...Array<number>(cost).fill(now)]);
+      return 0;
+    },
+  };
+}
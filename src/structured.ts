@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Structured PM emails: what the model returns as JSON and how it flattens back to Markdown.
+
+export type OutputFormat = 'text' | 'structured';
+
+export interface ActionItem {
+  owner: string;
+  task: string;
+  due: string;
+}
+
+export interface StructuredEmail {
+  subject: string;
+  tldr: string;
+  body: string;
+  actionItems: ActionItem[];
+}
+
+function isActionItem(value: unknown): value is ActionItem {
+  if (!value || typeof value !== 'object') return false;
+  const { owner, task, due } = value as Record<string, unknown>;
+  return typeof owner === 'string' && typeof task === 'string' && typeof due === 'string';
+}
+
+export function parseStructuredEmail(raw: string): StructuredEmail | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const { subject, tldr, body, actionItems } = value as Record<string, unknown>;
+  if (typeof subject !== 'string' || typeof tldr !== 'string' || typeof body !== 'string') return null;
+  if (!Array.isArray(actionItems) || !actionItems.every(isActionItem)) return null;
+
+  return { subject, tldr, body, actionItems };
+}
+
+export function formatActionItem({ owner, task, due }: ActionItem): string {
+  return `${owner || 'Unassigned'}: ${task}${due ? ` (due ${due})` : ''}`;
+}
+
+/** Everything below the subject line, as Markdown; this is what goes into an exported email body. */
+export function renderStructuredBody(email: StructuredEmail): string {
+  const sections = [`**TL;DR:** ${email.tldr}`, email.body];
+  if (email.actionItems.length > 0) {
+    sections.push(`**Action items**\n${email.actionItems.map((item) => `- ${formatActionItem(item)}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+/** The Markdown form used for history, guardrail checks, diffs and copying the whole email. */
+export function renderStructuredEmail(email: StructuredEmail): string {
+  return `**Subject:** ${email.subject}\n\n${renderStructuredBody(email)}`;
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Starting points for the emails PMs write every week. Bodies use `{{placeholder}}` variables.
+
+export interface EmailTemplate {
+  id: string;
+  label: string;
+  description: string;
+  // Tone profile selected when the template is used.
+  tone: string;
+  body: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export const EMAIL_TEMPLATES: EmailTemplate[] = [
+  {
+    id: 'launch-announcement',
+    label: 'Launch Announcement',
+    description: 'Tell stakeholders a feature is live and what it means for them.',
+    tone: 'authoritative',
+    body: `Hi {{audience}},
+
+{{feature}} is live as of {{launch_date}}.
+
+What it does: {{summary}}
+Who it's for: {{target_users}}
+How we'll measure success: {{success_metric}}
+
+Docs and rollout details: {{link}}
+
+Thanks to {{team}} for getting this out the door.`,
+  },
+  {
+    id: 'roadmap-slip',
+    label: 'Roadmap Slip',
+    description: 'Flag a delay early, with the cause and the new plan.',
+    tone: 'professional',
+    body: `Hi {{audience}},
+
+Heads up: {{milestone}} is moving from {{original_date}} to {{new_date}}.
+
+Why: {{reason}}
+Impact: {{impact}}
+What we're doing about it: {{mitigation}}
+
+I'll send the next update on {{next_update}}. Ping me with any concerns before then.`,
+  },
+  {
+    id: 'prd-review-request',
+    label: 'PRD Review Request',
+    description: 'Ask reviewers for feedback on a PRD by a deadline.',
+    tone: 'professional',
+    body: `Hi {{reviewers}},
+
+The PRD for {{feature}} is ready for review: {{link}}
+
+I'd especially like your input on {{open_questions}}.
+
+Please leave comments by {{due_date}} so we can lock scope for {{milestone}}.`,
+  },
+  {
+    id: 'incident-follow-up',
+    label: 'Incident Follow-Up',
+    description: 'Summarise an incident, its impact and the follow-up actions.',
+    tone: 'authoritative',
+    body: `Hi {{audience}},
+
+Summary of the {{incident_date}} incident affecting {{affected_service}}.
+
+What happened: {{what_happened}}
+Customer impact: {{impact}}
+Root cause: {{root_cause}}
+
+Follow-up actions:
+{{action_items}}
+
+The full postmortem is here: {{link}}`,
+  },
+];
+
+/** Placeholder names in order of first appearance. */
+export function extractPlaceholders(body: string): string[] {
+  return [...new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]))];
+}
+
+/** "launch_date" → "Launch date". */
+export function placeholderLabel(name: string): string {
+  const words = name.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Substitutes filled-in values; blank ones keep their `{{placeholder}}` so the gap stays visible. */
+export function fillTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+}
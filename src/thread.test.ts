@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_THREAD_CHARS, parseThread, parseThreadMessages } from './thread.ts';
+
+function eml(encoding: string, body: string): string {
+  return [
+    'From: Ana <ana@example.com>',
+    'Date: Mon, 3 Jun 2024 09:00:00 +0000',
+    'Subject: Launch',
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    `Content-Transfer-Encoding: ${encoding}`,
+    '',
+    body,
+  ].join('\n');
+}
+
+describe('parseThread', () => {
+  it('decodes a base64 .eml body', () => {
+    const [message] = parseThread(eml('base64', btoa('Can we ship on Friday?')));
+    assert.equal(message.from, 'Ana <ana@example.com>');
+    assert.equal(message.body, 'Can we ship on Friday?');
+  });
+
+  it('falls back to the raw body when base64 is malformed', () => {
+    const [message] = parseThread(eml('base64', 'Q2FuIHdlIHNoaXA*#@!'));
+    assert.equal(message.body, 'Q2FuIHdlIHNoaXA*#@!');
+  });
+
+  it('keeps the newest messages of a thread over the character limit', () => {
+    const older = `On Mon, Jun 3, 2024 at 9:00 AM Ana wrote:\n${'a'.repeat(30_000)}`;
+    const newest = `${'b'.repeat(30_000)}\n\n`;
+    const messages = parseThread(`${newest}${older}`);
+
+    assert.equal(messages.length, 1);
+    assert.ok(messages[0].body.startsWith('b'));
+    assert.ok(parseThreadMessages(messages));
+  });
+
+  it('cuts a single message that alone is over the limit', () => {
+    const messages = parseThread('c'.repeat(MAX_THREAD_CHARS + 10_000));
+    assert.equal(messages[0].body.length, MAX_THREAD_CHARS);
+    assert.ok(parseThreadMessages(messages));
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { stem } from './guardrails.ts';
+
+// Email threads pasted or uploaded as context for a reply. Parsing is heuristic: it understands
+// .eml headers, Gmail-style "On … wrote:" lines, Outlook "From:/Sent:" blocks and ">" quoting.
+
+export const MAX_THREAD_MESSAGES = 30;
+export const MAX_THREAD_CHARS = 50_000;
+// How much of a thread goes into the prompt, in total and per message.
+export const PROMPT_THREAD_CHARS = 8_000;
+const MAX_PROMPT_MESSAGE_CHARS = 2_000;
+
+export interface ThreadMessage {
+  from: string;
+  date: string;
+  body: string;
+}
+
+export interface ThreadQuestion {
+  from: string;
+  text: string;
+}
+
+// The date runs to the first time of day (or, failing that, a year); the sender follows it.
+const WROTE_PATTERN = /^On (.+?\d{1,2}:\d{2}(?:\s?[AP]M)?|.+?\d{4}),?\s+(.+?)\s+wrote:\s*$/i;
+const ORIGINAL_MESSAGE_PATTERN = /^-{2,}\s*(?:Original Message|Forwarded message)\s*-{2,}$/i;
+const HEADER_PATTERN = /^(From|Sent|Date|To|Cc|Subject):\s*(.*)$/i;
+const QUESTION_STOPWORDS = new Set([
+  'what', 'when', 'where', 'which', 'who', 'whom', 'why', 'how', 'does', 'did', 'will', 'would', 'could', 'should',
+  'can', 'have', 'has', 'that', 'this', 'there', 'their', 'they', 'them', 'with', 'from', 'about', 'your', 'you',
+  'we', 'our', 'are', 'is', 'the', 'and', 'for', 'any', 'still', 'also', 'just', 'been', 'into', 'then', 'than',
+]);
+
+function decodeQuotedPrintable(text: string): string {
+  const bytes: number[] = [];
+  const unfolded = text.replace(/=\r?\n/g, '');
+  for (let i = 0; i < unfolded.length; i++) {
+    const hex = unfolded.slice(i + 1, i + 3);
+    if (unfolded[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(Number.parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(unfolded[i]));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+function decodeBase64(text: string): string {
+  const binary = atob(text.replace(/\s+/g, ''));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+/** Headers of an RFC 822 block, lower-cased, with folded lines joined. */
+function parseHeaders(block: string): Map<string, string> {
+  const headers = new Map<string, string>();
+  let last = '';
+  for (const line of block.split(/\r?\n/)) {
+    if (/^\s/.test(line) && last) {
+      headers.set(last, `${headers.get(last)} ${line.trim()}`);
+      continue;
+    }
+    const match = line.match(/^([\w-]+):\s*(.*)$/);
+    if (match) {
+      last = match[1].toLowerCase();
+      headers.set(last, match[2]);
+    }
+  }
+  return headers;
+}
+
+function splitHead(text: string): [string, string] {
+  const match = text.match(/\r?\n\r?\n/);
+  return match?.index === undefined ? [text, ''] : [text.slice(0, match.index), text.slice(match.index + match[0].length)];
+}
+
+/** The readable text of a MIME entity: the text/plain part of multiparts, decoded. */
+function mimeBody(headers: Map<string, string>, body: string): string {
+  const contentType = headers.get('content-type') ?? 'text/plain';
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+  if (/^multipart\//i.test(contentType) && boundary) {
+    const parts = body.split(`--${boundary}`).slice(1, -1).map((part) => {
+      const [head, partBody] = splitHead(part.replace(/^\r?\n/, ''));
+      return { headers: parseHeaders(head), body: partBody };
+    });
+    const plain = parts.find((p) => /^text\/plain/i.test(p.headers.get('content-type') ?? 'text/plain'));
+    const chosen = plain ?? parts.find((p) => /^(?:multipart|text)\//i.test(p.headers.get('content-type') ?? ''));
+    return chosen ? mimeBody(chosen.headers, chosen.body) : '';
+  }
+
+  const encoding = headers.get('content-transfer-encoding')?.toLowerCase();
+  let decoded = body;
+  try {
+    if (encoding === 'quoted-printable') decoded = decodeQuotedPrintable(body);
+    if (encoding === 'base64') decoded = decodeBase64(body);
+  } catch {
+    // A truncated or malformed part: the raw text is still better than nothing.
+  }
+  return /^text\/html/i.test(contentType)
+    ? decoded.replace(/<br\s*\/?>|<\/p>/gi, '\n').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ')
+    : decoded;
+}
+
+function looksLikeEml(text: string): boolean {
+  const [head] = splitHead(text.trimStart());
+  return /^from:/im.test(head) && /^(?:date|subject|message-id|mime-version):/im.test(head)
+    && head.split(/\r?\n/).every((line) => /^[\w-]+:|^\s/.test(line));
+}
+
+/** Splits a pasted thread, newest message first, at reply markers; returns messages oldest first. */
+function splitPastedThread(text: string, newest: Omit<ThreadMessage, 'body'>): ThreadMessage[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n').map((line) => line.replace(/^(?:\s*>)+ ?/, ''));
+  const messages: ThreadMessage[] = [];
+  let current: ThreadMessage = { ...newest, body: '' };
+  let body: string[] = [];
+
+  const flush = () => {
+    const trimmed = body.join('\n').trim();
+    if (trimmed) messages.push({ ...current, body: trimmed });
+    body = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const wrote = line.match(WROTE_PATTERN);
+    if (wrote) {
+      flush();
+      current = { from: wrote[2], date: wrote[1], body: '' };
+      continue;
+    }
+    if (ORIGINAL_MESSAGE_PATTERN.test(line)) continue;
+
+    // An Outlook-style header block: "From:" plus at least one more header on the following lines.
+    if (/^From:/i.test(line) && HEADER_PATTERN.test(lines[i + 1]?.trim() ?? '')) {
+      flush();
+      current = { from: '', date: '', body: '' };
+      for (; i < lines.length && HEADER_PATTERN.test(lines[i].trim()); i++) {
+        const [, name, value] = lines[i].trim().match(HEADER_PATTERN)!;
+        if (/^from$/i.test(name)) current.from = value;
+        if (/^(?:sent|date)$/i.test(name)) current.date = value;
+      }
+      i--;
+      continue;
+    }
+    body.push(lines[i]);
+  }
+  flush();
+  return messages.reverse();
+}
+
+/** Keeps the newest messages that fit the server's limits, cutting the newest one short if it alone is too long. */
+function fitThreadLimits(messages: ThreadMessage[]): ThreadMessage[] {
+  const kept: ThreadMessage[] = [];
+  let chars = 0;
+  for (const message of [...messages].reverse()) {
+    if (kept.length === MAX_THREAD_MESSAGES) break;
+    const size = message.from.length + message.date.length + message.body.length;
+    if (chars + size > MAX_THREAD_CHARS) {
+      if (kept.length === 0) {
+        const room = Math.max(0, MAX_THREAD_CHARS - message.from.length - message.date.length);
+        kept.push({ ...message, body: message.body.slice(0, room) });
+      }
+      break;
+    }
+    kept.push(message);
+    chars += size;
+  }
+  return kept.reverse();
+}
+
+/**
+ * Parses a pasted thread or the contents of an .eml/.txt file into messages, oldest first. Threads longer than
+ * MAX_THREAD_MESSAGES or MAX_THREAD_CHARS lose their oldest messages, so the server accepts them.
+ */
+export function parseThread(text: string): ThreadMessage[] {
+  if (!text.trim()) return [];
+  if (looksLikeEml(text)) {
+    const [head, body] = splitHead(text.trimStart());
+    const headers = parseHeaders(head);
+    return fitThreadLimits(splitPastedThread(mimeBody(headers, body), {
+      from: headers.get('from') ?? '',
+      date: headers.get('date') ?? '',
+    }));
+  }
+  return fitThreadLimits(splitPastedThread(text, { from: '', date: '' }));
+}
+
+/** Plain-text form that `parseThread` reads back; used to restore a saved thread into the context box. */
+export function formatThread(messages: ThreadMessage[]): string {
+  return [...messages].reverse()
+    .map((m) => `From: ${m.from || 'Unknown'}\nDate: ${m.date || 'Unknown'}\n\n${m.body}`)
+    .join('\n\n');
+}
+
+export function parseThreadMessages(value: unknown): ThreadMessage[] | null {
+  if (!Array.isArray(value) || value.length > MAX_THREAD_MESSAGES) return null;
+  let chars = 0;
+  for (const message of value) {
+    if (!message || typeof message !== 'object') return null;
+    const { from, date, body } = message as Record<string, unknown>;
+    if (typeof from !== 'string' || typeof date !== 'string' || typeof body !== 'string') return null;
+    chars += from.length + date.length + body.length;
+  }
+  if (chars > MAX_THREAD_CHARS) return null;
+  return (value as ThreadMessage[]).map(({ from, date, body }) => ({ from, date, body }));
+}
+
+export function findQuestions(messages: ThreadMessage[]): ThreadQuestion[] {
+  const questions: ThreadQuestion[] = [];
+  for (const message of messages) {
+    for (const match of message.body.matchAll(/[^.!?\n]*\?/g)) {
+      const text = match[0].trim().replace(/^[-*•\d.)\s]+/, '');
+      if (text.split(/\s+/).length >= 3) questions.push({ from: message.from, text });
+    }
+  }
+  return questions;
+}
+
+function keywords(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [])
+    .filter((w) => w.length >= 3 && !QUESTION_STOPWORDS.has(w))
+    .map(stem);
+}
+
+/**
+ * Questions the reply does not seem to address: fewer than half of a question's keywords appear in it.
+ * A cheap overlap check, so results are hints rather than verdicts.
+ */
+export function findUnansweredQuestions(questions: ThreadQuestion[], reply: string): ThreadQuestion[] {
+  const replyWords = new Set(keywords(reply));
+  return questions.filter((question) => {
+    const words = [...new Set(keywords(question.text))];
+    if (words.length === 0) return false;
+    const covered = words.filter((w) => replyWords.has(w)).length;
+    return covered / words.length < 0.5;
+  });
+}
+
+/**
+ * The messages worth putting in the prompt: those that ask questions first, then the most recent,
+ * until `budget` characters are used. Returned oldest first.
+ */
+export function selectRelevantMessages(messages: ThreadMessage[], budget = PROMPT_THREAD_CHARS): ThreadMessage[] {
+  const ranked = messages
+    .map((message, index) => ({ message, index, asks: findQuestions([message]).length > 0 }))
+    .sort((a, b) => Number(b.asks) - Number(a.asks) || b.index - a.index);
+
+  const chosen: typeof ranked = [];
+  let used = 0;
+  for (const entry of ranked) {
+    const body = entry.message.body.length > MAX_PROMPT_MESSAGE_CHARS
+      ? `${entry.message.body.slice(0, MAX_PROMPT_MESSAGE_CHARS)}…`
+      : entry.message.body;
+    if (used + body.length > budget) continue;
+    used += body.length;
+    chosen.push({ ...entry, message: { ...entry.message, body } });
+  }
+  return chosen.sort((a, b) => a.index - b.index).map((entry) => entry.message);
+}
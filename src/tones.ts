@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Tone profiles are shared by the client (picker, editor) and the server (prompt instructions).
+
+export const TONE_ICONS = [
+  'target',
+  'briefcase',
+  'coffee',
+  'smile',
+  'siren',
+  'megaphone',
+  'file-code',
+  'shield-alert',
+  'message-square',
+  'rocket',
+  'flame',
+  'heart',
+] as const;
+
+export type ToneIcon = typeof TONE_ICONS[number];
+
+export const TONE_COLORS = ['amber', 'indigo', 'emerald', 'orange', 'rose', 'sky', 'violet', 'slate'] as const;
+
+export type ToneColor = typeof TONE_COLORS[number];
+
+export interface ToneProfileInput {
+  label: string;
+  icon: ToneIcon;
+  color: ToneColor;
+  description: string;
+  instructions: string;
+}
+
+export interface ToneProfile extends ToneProfileInput {
+  id: string;
+  builtIn: boolean;
+}
+
+export const DEFAULT_TONE_ID = 'professional';
+
+export const BUILT_IN_TONES: ToneProfile[] = [
+  {
+    id: 'authoritative',
+    label: 'Authoritative',
+    icon: 'target',
+    color: 'amber',
+    description: 'Decisive, strategic, and high-impact for PM leadership.',
+    instructions: "Make it authoritative, decisive, and strategic. Focus on outcomes, clarity, and leadership. Perfect for high-stakes PM communication.",
+    builtIn: true,
+  },
+  {
+    id: 'professional',
+    label: 'Professional',
+    icon: 'briefcase',
+    color: 'indigo',
+    description: 'Polished, clear, and stakeholder-ready.',
+    instructions: "Make it professional, clear, and business-appropriate. Focus on stakeholder alignment and clarity.",
+    builtIn: true,
+  },
+  {
+    id: 'casual',
+    label: 'Casual',
+    icon: 'coffee',
+    color: 'emerald',
+    description: 'Warm, approachable, and team-friendly.',
+    instructions: "Make it casual and friendly, like a message to a direct team or close collaborator. Use a warm, collaborative tone.",
+    builtIn: true,
+  },
+  {
+    id: 'fun',
+    label: 'Fun',
+    icon: 'smile',
+    color: 'orange',
+    description: 'Quirky, energetic, and full of personality.',
+    instructions: "Make it fun and full of personality! Use expressive language while remaining effective.",
+    builtIn: true,
+  },
+];
+
+export function isBuiltInTone(id: string): boolean {
+  return BUILT_IN_TONES.some((tone) => tone.id === id);
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Shared between the React client and the Express server.
+
+import type { ErrorCategory } from './errors.ts';
+import type { GuardrailReport } from './guardrails.ts';
+import type { GenerationSettings } from './models.ts';
+import type { OutputFormat, StructuredEmail } from './structured.ts';
+import type { ThreadMessage } from './thread.ts';
+
+export type RefineAction = 'rephrase' | 'refine' | 'improve';
+
+export interface RefineRequest {
+  draft: string;
+  // Built-in tone id or the id of a custom tone profile.
+  tone: string;
+  action: RefineAction;
+  avoidWords: string[];
+  // How many times the server may regenerate an output that breaks the guardrails.
+  maxRetries: number;
+  // Outputs longer than this multiple of the draft's word count break the length guardrail.
+  maxLengthRatio: number;
+  format: OutputFormat;
+  settings: GenerationSettings;
+  // Earlier messages of the thread being replied to, oldest first; empty for a fresh email.
+  context: ThreadMessage[];
+}
+
+// /api/refine streams newline-delimited JSON, one event per line.
+export type RefineStreamEvent =
+  | { type: 'chunk'; text: string }
+  | { type: 'retry'; attempt: number; report: GuardrailReport }
+  // A transient provider failure; the server waits `delayMs` and starts the attempt over.
+  | { type: 'backoff'; attempt: number; delayMs: number; category: ErrorCategory }
+  | { type: 'done'; text: string; model: string; draft: DraftRecord }
+  | { type: 'error'; error: string; category: ErrorCategory };
+
+export interface DraftRecord extends Omit<RefineRequest, 'maxRetries' | 'maxLengthRatio' | 'format'> {
+  id: number;
+  createdAt: string;
+  model: string;
+  output: string;
+  // Set when the draft was generated in structured mode; `output` then holds its Markdown rendering.
+  structured: StructuredEmail | null;
+  // Prompt templates that produced the output, e.g. "refine@2"; null for drafts saved before versioning.
+  promptVersion: string | null;
+  // Set on follow-up turns: the version this one revised and the instruction it answered.
+  parentId: number | null;
+  instruction: string | null;
+}
+
+/** A follow-up turn on a saved output; the original draft, tone, action and format come from its thread. */
+export interface FollowUpRequest extends Pick<RefineRequest, 'avoidWords' | 'maxRetries' | 'maxLengthRatio' | 'settings'> {
+  draftId: number;
+  instruction: string;
+  // The revised version as the user left it, when they edited it after it was saved; replayed instead of the saved output.
+  edited?: Pick<DraftRecord, 'output' | 'structured'>;
+}
+
+// The user id the server falls back to for requests without a valid X-SolDraft-User header.
+export const ANONYMOUS_USER = 'anonymous';
+
+export interface ApiErrorBody {
+  error: string;
+  category?: ErrorCategory;
+  retryAfterSeconds?: number;
+}
+
+export const MAX_VARIANTS = 4;
+
+export interface VariantCandidate {
+  draftId: number;
+  tone: string;
+  action: RefineAction;
+}
+
+export interface VariantPickRequest {
+  // Client-generated id shared by every variant produced by one click.
+  groupId: string;
+  candidates: VariantCandidate[];
+  pickedDraftId: number;
+}
+
+export interface PreferenceStat {
+  key: string;
+  shown: number;
+  picked: number;
+}
+
+export interface VariantStats {
+  tones: PreferenceStat[];
+  actions: PreferenceStat[];
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ErrorCategory } from './errors.ts';
+
+// Token usage per generation request, and what it is estimated to cost.
+
+export const USAGE_PERIODS = [1, 7, 30, 90];
+export const DEFAULT_USAGE_PERIOD = 30;
+// Prices are per million tokens, in US dollars, as provider price lists quote them.
+export const MAX_PRICE_PER_MILLION = 1_000;
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** How a request ended: 'done', stopped by the user, or the category it failed with. */
+export type UsageOutcome = 'done' | 'aborted' | ErrorCategory;
+
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface UsageRow extends TokenUsage {
+  // A day (YYYY-MM-DD, UTC), user id, action or model, depending on the breakdown.
+  key: string;
+  requests: number;
+  failed: number;
+  avgLatencyMs: number;
+  // Estimated from the current prices; requests on models without a price count towards `unpriced` instead.
+  cost: number;
+  unpriced: number;
+}
+
+export interface UsageReport {
+  days: number;
+  total: UsageRow;
+  byDay: UsageRow[];
+  byUser: UsageRow[];
+  byAction: UsageRow[];
+  byModel: UsageRow[];
+}
+
+function isPrice(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_PRICE_PER_MILLION;
+}
+
+/** Validates a full price list; null if any entry is invalid or a model appears twice. */
+export function parseModelPrices(value: unknown): ModelPrice[] | null {
+  if (!Array.isArray(value)) return null;
+  const prices: ModelPrice[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') return null;
+    const { model, inputPerMillion, outputPerMillion } = entry as Record<string, unknown>;
+    if (typeof model !== 'string' || !model.trim()) return null;
+    if (!isPrice(inputPerMillion) || !isPrice(outputPerMillion)) return null;
+    if (prices.some((p) => p.model === model.trim())) return null;
+    prices.push({ model: model.trim(), inputPerMillion, outputPerMillion });
+  }
+  return prices;
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  return usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}